@@ -7,12 +7,40 @@ export default class HandleFeature<GeomType extends Geometry = Geometry> extends
   readonly body: Feature
   readonly mode: TransformMode
   readonly index: number
+  /**
+   * indices from the body's coordinates down to the line or ring of a vertex handle
+   */
+  readonly path: number[]
+  /**
+   * a vertex handle between two vertices, dragging it inserts a new vertex at `index`
+   */
+  readonly midpoint: boolean
+  /**
+   * orientation of the box the handle was drawn for in radians, set for `handleStyle`
+   */
+  angle = 0
 
-  constructor({ geometry, body, mode, index = -1 }: { geometry: GeomType; body: Feature; mode: TransformMode; index?: number }) {
+  constructor({
+    geometry,
+    body,
+    mode,
+    index = -1,
+    path = [],
+    midpoint = false,
+  }: {
+    geometry: GeomType
+    body: Feature
+    mode: TransformMode
+    index?: number
+    path?: number[]
+    midpoint?: boolean
+  }) {
     super(geometry)
     this.body = body
     this.mode = mode
     this.index = index
+    this.path = path
+    this.midpoint = midpoint
   }
 
   static isHandleFeature(feat: FeatureLike): feat is HandleFeature {
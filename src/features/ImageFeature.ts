@@ -0,0 +1,175 @@
+import Feature, { type FeatureLike } from "ol/Feature"
+import ImageWrapper from "ol/Image"
+import { type Coordinate } from "ol/coordinate"
+import { boundingExtent, type Extent, getCenter, getHeight, getWidth } from "ol/extent"
+import { Polygon } from "ol/geom"
+import ImageLayer from "ol/layer/Image"
+import { type ProjectionLike } from "ol/proj"
+import Static from "ol/source/ImageStatic"
+import { getUid } from "ol/util"
+
+import { policyProperty } from "../interactions/transform/TransformPolicy"
+import { calcDistance } from "../util"
+
+export type ImageGeoreference = {
+  /**
+   * extent of the image before `rotation`, around the center of the placed image
+   */
+  extent: Extent
+  /**
+   * radians, counter-clockwise around the center of `extent`
+   */
+  rotation: number
+  /**
+   * [a, b, c, d, e, f] placing a fraction (u, v) of the image, from its top-left corner with v growing downwards,
+   * at x = a * u + b * v + c, y = d * u + e * v + f, this also holds a skewed image
+   */
+  affine: number[]
+}
+
+/**
+ * rectangle standing in for a static image layer, the layer follows it when `updateLayer` is called
+ */
+export default class ImageFeature extends Feature<Polygon> {
+  /**
+   * canvas side in pixels a rotated image is drawn to at most
+   */
+  private static readonly maxCanvasSize = 4096
+  readonly layer: ImageLayer<Static>
+  private readonly _url: string
+  private readonly _projection: ProjectionLike
+  /**
+   * corners the layer shows
+   */
+  private _corners: Coordinate[]
+  /**
+   * the image at `_url`, loaded once for every drawing of a rotated image
+   */
+  private _original?: Promise<HTMLImageElement>
+
+  constructor({ layer }: { layer: ImageLayer<Static> }) {
+    const source = layer.getSource()!
+    const [minX, minY, maxX, maxY] = source.getImageExtent()
+    // tl, bl, br, tr like `rearrangeCoords`
+    const corners = [
+      [minX, maxY],
+      [minX, minY],
+      [maxX, minY],
+      [maxX, maxY],
+    ]
+    super(new Polygon([[...corners, corners[0]]]))
+    // lets `applyOperation` find the image again
+    this.setId(`image-${getUid(layer)}`)
+    this.layer = layer
+    this._url = source.getUrl()
+    this._projection = source.getProjection() ?? undefined
+    this._corners = corners
+    // the image is drawn through an affine mapping of its corners
+    this.set(policyProperty, { vertex: false, distort: false })
+  }
+
+  getGeoreference(): ImageGeoreference {
+    const [tl, bl, br, tr] = this.getCorners()
+    const width = calcDistance(tl, tr)
+    const height = calcDistance(tl, bl)
+    // the center of a parallelogram is the midpoint of its diagonal
+    const [cx, cy] = getCenter(boundingExtent([tl, br]))
+    return {
+      extent: [cx - width / 2, cy - height / 2, cx + width / 2, cy + height / 2],
+      rotation: Math.atan2(tr[1] - tl[1], tr[0] - tl[0]),
+      affine: [tr[0] - tl[0], bl[0] - tl[0], tl[0], tr[1] - tl[1], bl[1] - tl[1], tl[1]],
+    }
+  }
+
+  /**
+   * replace the source of the layer so the image covers the rectangle,
+   * a rotated, skewed or mirrored image is drawn to a canvas from the original loaded once, it needs to be served with CORS headers
+   * or the layer fails to load
+   */
+  updateLayer(): void {
+    const corners = this.getCorners()
+    if (corners.every(([x, y], i) => x === this._corners[i][0] && y === this._corners[i][1])) {
+      return
+    }
+    this._corners = corners
+    const { affine } = this.getGeoreference()
+    const [a, b, , d, e] = affine
+    const imageExtent = boundingExtent(corners)
+    const upright = a > 0 && e < 0 && Math.abs(b) < 1e-9 && Math.abs(d) < 1e-9
+
+    this.layer.setSource(
+      new Static({
+        url: this._url,
+        imageExtent,
+        projection: this._projection,
+        crossOrigin: upright ? undefined : "anonymous",
+        imageLoadFunction: upright ? undefined : (wrapper, src) => this.drawImage(wrapper, src, affine, imageExtent),
+      }),
+    )
+  }
+
+  private getCorners(): Coordinate[] {
+    return this.getGeometry()!.getCoordinates()[0].slice(0, 4)
+  }
+
+  private loadOriginal(src: string): Promise<HTMLImageElement> {
+    this._original ??= new Promise((resolve, reject) => {
+      const original = new Image()
+      original.crossOrigin = "anonymous"
+      original.onload = () => resolve(original)
+      original.onerror = () => {
+        // the next update tries again
+        this._original = undefined
+        reject(new Error(`Failed to load ${src}`))
+      }
+      original.src = src
+    })
+    return this._original
+  }
+
+  private drawImage(wrapper: ImageWrapper, src: string, affine: number[], extent: Extent): void {
+    const image = wrapper.getImage() as HTMLImageElement
+    this.loadOriginal(src)
+      .then((original) => new Promise<Blob | null>((resolve) => this.drawCanvas(original, affine, extent).toBlob(resolve)))
+      .then((blob) => {
+        if (!blob) {
+          throw new Error("Failed to encode the image")
+        }
+        const url = URL.createObjectURL(blob)
+        const revoke = () => URL.revokeObjectURL(url)
+        image.addEventListener("load", revoke, { once: true })
+        image.addEventListener("error", revoke, { once: true })
+        image.src = url
+      })
+      .catch(() => {
+        // the layer waits for the image to load or fail
+        image.dispatchEvent(new Event("error"))
+      })
+  }
+
+  private drawCanvas(original: HTMLImageElement, affine: number[], extent: Extent): HTMLCanvasElement {
+    const { naturalWidth: width, naturalHeight: height } = original
+    const [a, b, c, d, e, f] = affine
+    // keep the resolution of the original along its top edge
+    const resolution = Math.max(Math.hypot(a, d) / width, Math.max(getWidth(extent), getHeight(extent)) / ImageFeature.maxCanvasSize)
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.max(1, Math.ceil(getWidth(extent) / resolution))
+    canvas.height = Math.max(1, Math.ceil(getHeight(extent) / resolution))
+    const context = canvas.getContext("2d")!
+    // image pixels to map coordinates by `affine`, then to canvas pixels from the top-left of the extent
+    context.setTransform(
+      a / (width * resolution),
+      -d / (width * resolution),
+      b / (height * resolution),
+      -e / (height * resolution),
+      (c - extent[0]) / resolution,
+      (extent[3] - f) / resolution,
+    )
+    context.drawImage(original, 0, 0)
+    return canvas
+  }
+
+  static isImageFeature(feat: FeatureLike): feat is ImageFeature {
+    return feat instanceof ImageFeature
+  }
+}
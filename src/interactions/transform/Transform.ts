@@ -1,67 +1,497 @@
 import { Collection, Map as OlMap, MapBrowserEvent } from "ol"
+import { CollectionEvent } from "ol/Collection"
 import Feature from "ol/Feature"
 import { unByKey } from "ol/Observable"
 import { Color } from "ol/color"
 import { type ColorLike } from "ol/colorlike"
 import { type Coordinate } from "ol/coordinate"
 import { EventsKey } from "ol/events"
-import { boundingExtent, getCenter } from "ol/extent"
-import { Geometry, Point } from "ol/geom"
+import { boundingExtent, containsExtent, createEmpty, extend, getCenter } from "ol/extent"
+import { Circle, Geometry, MultiPolygon, Point, Polygon, SimpleGeometry } from "ol/geom"
 import { fromExtent } from "ol/geom/Polygon"
 import PointerInteraction from "ol/interaction/Pointer"
-import { Layer, Vector as VectorLayer } from "ol/layer"
+import { Image as ImageLayer, Layer, Vector as VectorLayer } from "ol/layer"
 import { type Options } from "ol/layer/BaseVector"
-import { Source, Vector as VectorSource } from "ol/source"
-import { Fill, RegularShape, Stroke, Style } from "ol/style"
+import { type Pixel } from "ol/pixel"
+import { toLonLat } from "ol/proj"
+import { ImageStatic, Source, Vector as VectorSource } from "ol/source"
+import { getDistance } from "ol/sphere"
+import { Circle as CircleStyle, Fill, Icon, RegularShape, Stroke, Style, Text } from "ol/style"
+import { type StyleLike } from "ol/style/Style"
 
-import TransformEvent, { type TransformEventType } from "./TransformEvent"
+import TransformCollisionEvent from "./TransformCollisionEvent"
+import TransformDuplicateEvent from "./TransformDuplicateEvent"
+import TransformEvent, { type TransformDelta, type TransformEventType } from "./TransformEvent"
+import TransformHistory, { type TransformSnapshot } from "./TransformHistory"
+import TransformHistoryEvent, { type TransformHistoryAction } from "./TransformHistoryEvent"
+import TransformHoverEvent from "./TransformHoverEvent"
+import { formatMeasurement, type TransformMeasurement } from "./TransformMeasurement"
+import { type FeatureOperation, type TransformOperation } from "./TransformOperation"
+import { clampScale, resolvePolicy, type TransformPolicy } from "./TransformPolicy"
+import TransformSelectEvent from "./TransformSelectEvent"
+import FeatureSnapper from "./snap/FeatureSnapper"
+import GridSnapper from "./snap/GridSnapper"
+import { type SnapResult, type Snapper } from "./snap/Snapper"
 import HandleFeature from "../../features/HandleFeature"
-import { calcDistance, rearrangeCoords } from "../../util"
+import ImageFeature from "../../features/ImageFeature"
+import {
+  calcDistance,
+  calcHomography,
+  calcMinAreaAngle,
+  createHomographyTransform,
+  createRotationMatrix,
+  createScaleMatrix,
+  createTangentPlane,
+  dominantScale,
+  editVertex,
+  fromBoxRelative,
+  geometriesOverlap,
+  geometryWithin,
+  getGeometryPaths,
+  getSymbolSize,
+  getSymbolStyles,
+  getVertexPaths,
+  isVertexGeometry,
+  mapPlane,
+  multiplyMatrices,
+  normalizeAngle,
+  rearrangeCoords,
+  scaleGeometry,
+  type TangentPlane,
+  toBoxRelative,
+  type VertexEdit,
+  type VertexGeometry,
+} from "../../util"
 import type { OmitFrom } from "../../util-types"
 
-export type TransformMode = "" | "translate" | "scale" | "rotate"
+export type TransformMode = "" | "translate" | "scale" | "rotate" | "vertex" | "pivot" | "skew" | "distort" | "flip"
+
+export type HandleStyleState = {
+  mode: TransformMode
+  index: number
+  /**
+   * the pointer is over the handle
+   */
+  hover: boolean
+  /**
+   * the handle's mode is being dragged
+   */
+  active: boolean
+  /**
+   * orientation of the handle's box in radians
+   */
+  angle: number
+  /**
+   * the handle's feature is marked by `collisionMode: "mark"`
+   */
+  invalid: boolean
+}
 
 export type TransformOptions = {
   layers?: Layer<Source>[]
-  handleEvent?: (evt: MapBrowserEvent<MouseEvent>, features?: Collection<Feature<Geometry>>) => boolean
-  addCondition?: (evt: MapBrowserEvent<MouseEvent>) => boolean
+  handleEvent?: (evt: MapBrowserEvent<PointerEvent>, features?: Collection<Feature<Geometry>>) => boolean
+  /**
+   * pressing a feature while this holds adds it to the selection,
+   * a selected one is removed when the pointer is released without dragging, so the press can still drag the selection
+   */
+  addCondition?: (evt: MapBrowserEvent<PointerEvent>) => boolean
   strokeColor?: string
   strokeWidth?: number
-  shouldGetFeature?: (evt: MapBrowserEvent<MouseEvent>, feat: Feature, layer: Layer) => boolean
+  shouldGetFeature?: (evt: MapBrowserEvent<PointerEvent>, feat: Feature, layer: Layer) => boolean
+  /**
+   * which features of `layers` `selectAll` selects, it has no pointer event to call `shouldGetFeature` with
+   */
+  selectAllFilter?: (feat: Feature, layer: Layer) => boolean
   layerOptions?: OmitFrom<Options<VectorSource>, "source">
+  /**
+   * max number of undoable transforms, 0 disables the history
+   */
+  historyDepth?: number
+  /**
+   * arrow keys nudge, bracket keys rotate, Escape cancels and Delete emits a delete event,
+   * off by default so the keys keep panning the map
+   */
+  keyboard?: boolean
+  /**
+   * distance an arrow key moves the features, in `nudgeUnit`
+   */
+  nudgeStep?: number
+  /**
+   * distance an arrow key moves the features while Shift is held, in `nudgeUnit`
+   */
+  largeNudgeStep?: number
+  nudgeUnit?: "pixel" | "map"
+  /**
+   * angle in radians a bracket key rotates the features
+   */
+  rotateStep?: number
+  /**
+   * grid cell size in map units to snap translated and scaled features to
+   */
+  snapGrid?: number
+  /**
+   * snap to vertices and edges of the features in `layers`
+   */
+  snapToFeatures?: boolean
+  /**
+   * custom snappers, consulted together with `snapGrid` and `snapToFeatures`
+   */
+  snappers?: Snapper[]
+  /**
+   * snapping distance in pixels
+   */
+  snapTolerance?: number
+  /**
+   * rotation increment in radians used while `snapAngleCondition` holds
+   */
+  snapAngle?: number
+  snapAngleCondition?: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  /**
+   * keep the aspect ratio when dragging a corner handle
+   * the same-named feature property overrides this and its condition
+   */
+  keepAspectRatio?: boolean
+  keepAspectRatioCondition?: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  /**
+   * scale symmetrically around the center instead of the opposite handle
+   * the same-named feature property overrides this and its condition
+   */
+  scaleFromCenter?: boolean
+  scaleFromCenterCondition?: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  /**
+   * restrict translate to the dominant horizontal or vertical axis
+   * the same-named feature property overrides this and its condition
+   */
+  axisLock?: boolean
+  axisLockCondition?: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  /**
+   * permissions and limits per feature, the `transformPolicy` feature property overrides the returned fields
+   */
+  policy?: (feat: Feature) => TransformPolicy | undefined
+  /**
+   * double-click a selected line or polygon to edit its vertices, off by default so double-click keeps zooming the map
+   */
+  vertexEditing?: boolean
+  /**
+   * pressing a vertex handle while this holds removes the vertex, Alt by default
+   */
+  vertexDeleteCondition?: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  /**
+   * transform a multi-selection as one unit around a shared bounding box,
+   * false handles only the first feature and rotates and scales each feature around itself
+   */
+  group?: boolean
+  /**
+   * point to rotate a feature around until its pivot handle is moved, e.g. a building's entrance
+   * defaults to the center of the feature's extent
+   */
+  pivot?: (feat: Feature) => Coordinate | undefined
+  /**
+   * scale around the handle opposite to the dragged one or around the pivot
+   */
+  scaleAnchor?: "opposite" | "pivot"
+  /**
+   * hit tolerance in pixels for mouse pointers
+   */
+  hitTolerance?: number
+  /**
+   * hit tolerance in pixels for touch and pen pointers
+   */
+  touchHitTolerance?: number
+  /**
+   * pinch and twist with two fingers on a dragged feature to scale and rotate it, instead of the map
+   */
+  pinch?: boolean
+  /**
+   * label the handle layer with the size, angle or offset while transforming
+   */
+  measure?: boolean
+  measureFormatter?: (measurement: TransformMeasurement) => string
+  /**
+   * apply pointer drags once per animation frame, at the last pointer position of the frame
+   */
+  throttle?: boolean
+  /**
+   * draw the dragged features as plain outlines until the pointer is released, which renders faster for large selections
+   */
+  dragPreview?: boolean
+  /**
+   * replaces the built-in handle styles
+   */
+  handleStyle?: (handle: HandleFeature, state: HandleStyleState) => Style | Style[]
+  /**
+   * color drawn behind the built-in style of a hovered or dragged handle, and around a hovered feature
+   */
+  highlightColor?: string
+  /**
+   * set a cursor matching the handle, or a pointer over a selectable feature, under the pointer on the map viewport
+   */
+  cursors?: boolean
+  /**
+   * rotate and scale in a local tangent plane around the features, so that sizes and right angles hold on the ground,
+   * sizes in measurements, policies and `scaleTo` are then in meters, a view in degrees always does so
+   */
+  geodesic?: boolean
+  /**
+   * feature property holding the orientation of a feature's box in radians, counter-clockwise
+   */
+  angleProperty?: string
+  /**
+   * give selected features without an orientation the one of their minimum-area bounding rectangle,
+   * it is kept by the interaction and written to `angleProperty` only once the feature is rotated or mirrored
+   */
+  fitAngle?: boolean
+  /**
+   * feature property that is true while a feature is mirrored in its box,
+   * a vertical mirror is kept as a horizontal one with the box turned half around
+   */
+  flipProperty?: string
+  /**
+   * drag on empty map space to select the features of `layers` touching a box, instead of panning the map,
+   * `addCondition` adds them to the selection
+   */
+  boxSelect?: boolean
+  /**
+   * a box drawn while this holds deselects the features touching it
+   */
+  subtractCondition?: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  /**
+   * keep transformed features from overlapping the features of `layers`, or of `obstacles` if set
+   */
+  preventOverlap?: boolean
+  obstacles?: VectorSource
+  /**
+   * area the transformed features have to stay inside
+   */
+  boundary?: Polygon | MultiPolygon
+  /**
+   * "block" stops a transform at its last valid step,
+   * "mark" lets it go on and marks the colliding features as invalid
+   */
+  collisionMode?: "block" | "mark"
+  /**
+   * outline color of the features marked as invalid
+   */
+  invalidColor?: string
+  /**
+   * starting to translate while this holds copies the selected features into their sources and drags the copies,
+   * Alt by default
+   */
+  cloneCondition?: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  /**
+   * pressing an edge handle while this holds shears the box along that edge instead of scaling it
+   */
+  skewCondition?: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  /**
+   * pressing a corner handle while this holds moves that corner alone and maps the box projectively
+   */
+  distortCondition?: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  /**
+   * static images to select and transform like features, each through an `ImageFeature` over its extent
+   * whose `getGeoreference()` gives the placement, the layer follows at the end of each transform
+   */
+  imageLayers?: ImageLayer<ImageStatic>[]
 }
 
+export type TransformConstraint = "keepAspectRatio" | "scaleFromCenter" | "axisLock"
+
+type TransformBox = { coords: Coordinate[]; angle: number; center: Coordinate }
+
 export default class Transform extends PointerInteraction {
   private static readonly scaleHandlesLength = 8
+  private static readonly modeEvents: Record<Exclude<TransformMode, "">, Record<"start" | "ing" | "end", TransformEventType>> = {
+    translate: { start: "translatestart", ing: "translating", end: "translateend" },
+    rotate: { start: "rotatestart", ing: "rotating", end: "rotateend" },
+    scale: { start: "scalestart", ing: "scaling", end: "scaleend" },
+    vertex: { start: "vertexstart", ing: "vertexing", end: "vertexend" },
+    pivot: { start: "pivotstart", ing: "pivoting", end: "pivotend" },
+    skew: { start: "skewstart", ing: "skewing", end: "skewend" },
+    distort: { start: "distortstart", ing: "distorting", end: "distortend" },
+    flip: { start: "flipstart", ing: "flipping", end: "flipend" },
+  }
   private readonly _selections = new Collection<Feature>()
   private readonly _prevSelections = new Collection<Feature>()
   private readonly _handleLayer: VectorLayer<VectorSource>
+  private readonly _imageLayer: VectorLayer<VectorSource>
   private _mode: TransformMode = ""
   private _layers: Layer[]
-  private _addCondition: (evt: MapBrowserEvent<MouseEvent>) => boolean
-  private _shouldGetFeature: (evt: MapBrowserEvent<MouseEvent>, feat: Feature, layer: Layer) => boolean
+  private _addCondition: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  private _shouldGetFeature: (evt: MapBrowserEvent<PointerEvent>, feat: Feature, layer: Layer) => boolean
+  private _selectAllFilter: (feat: Feature, layer: Layer) => boolean
   private _transformed = false
   private _strokeColor?: string
   private _strokeWidth: number
   private _startCoord: Coordinate = [0, 0]
-  private _prevCoord: Coordinate = [0, 0]
-  private _rotationSelection = { angle: 0, center: [0, 0] }
+  private _rotationSelection = { angle: 0, center: [0, 0], pivots: [] as Coordinate[] }
   private _scalingSelection = {
     angle: 0,
-    w: 0,
-    h: 0,
+    coords: [] as Coordinate[],
     handleIdx: -1,
     oppositeIdx: -1,
-    oppositeCoord: [0, 0],
-    startCoord: [0, 0],
+    pivots: [] as Coordinate[],
+    targetIdx: 0,
+    plane: mapPlane,
   }
-  private _headInverted = false
-  private _selectionsEvent = () => {
-    this.watchFeatures()
-    this.drawHandles()
+  private _pivotCoord: Coordinate = [0, 0]
+  private _pinching = false
+  private _pinchSelection = {
+    center: [0, 0] as Coordinate,
+    distance: 0,
+    angle: 0,
+    /**
+     * translation of the gesture before the pinch started
+     */
+    offset: [0, 0] as Coordinate,
+    origin: undefined as Coordinate | undefined,
+  }
+  private _selectionsEvent = (evt: CollectionEvent<Feature>) => {
+    if (this._changingSelection) {
+      return
+    }
+    const added = evt.type === "add"
+    const selected = added ? [evt.element] : []
+    const deselected = added ? [] : [evt.element]
+    if (this.allowSelectionChange(selected, deselected)) {
+      this.announceSelectionChange(selected, deselected)
+      return
+    }
+    // the collection was changed from outside before it could be checked, so take back this one change
+    this._changingSelection = true
+    if (added) {
+      this._selections.removeAt(evt.index)
+    } else {
+      this._selections.insertAt(evt.index, evt.element)
+    }
+    this._changingSelection = false
   }
+  private _changingSelection = false
   private _featureListeners: EventsKey[] = []
+  private _mapListeners: EventsKey[] = []
   private _updating = false
+  private readonly _history: TransformHistory
+  private _keyboard: boolean
+  private _nudgeStep: number
+  private _largeNudgeStep: number
+  private _nudgeUnit: "pixel" | "map"
+  private _rotateStep: number
+  private _snappers: Snapper[]
+  private _snapTolerance: number
+  private _snapAngle: number
+  private _snapAngleCondition: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  private _constraints: Record<TransformConstraint, boolean>
+  private _constraintConditions: Record<TransformConstraint, (evt: MapBrowserEvent<PointerEvent>) => boolean>
+  /**
+   * the feature the gesture started on, whose properties override the constraints
+   */
+  private _target?: Feature
+  private _policy?: (feat: Feature) => TransformPolicy | undefined
+  private _vertexEditing: boolean
+  private _group: boolean
+  private _pivot?: (feat: Feature) => Coordinate | undefined
+  private _scaleAnchor: "opposite" | "pivot"
+  /**
+   * pivots moved by the user, relative to the feature's box so they follow its transforms
+   */
+  private _pivots = new WeakMap<Feature, Coordinate>()
+  private _groupPivot?: Coordinate
+  private _hitTolerance: number
+  private _touchHitTolerance: number
+  private _pinch: boolean
+  private _measure: boolean
+  private _measureFormatter: (measurement: TransformMeasurement) => string
+  private _throttle: boolean
+  private _dragFrame?: number
+  private _pendingDrag?: MapBrowserEvent<PointerEvent>
+  /**
+   * snap indicators of the current drag step, drawn with its other marks
+   */
+  private _snapIndicators: Feature[] = []
+  private _dragPreview: boolean
+  /**
+   * own styles of the features drawn as outlines by `dragPreview`
+   */
+  private _previewStyles?: Map<Feature, StyleLike | undefined>
+  /**
+   * boxes of the snapshots in `_prevSelections`, which do not change during a gesture
+   */
+  private _prevBoxes = new WeakMap<Feature, TransformBox>()
+  private _prevGroupBox?: TransformBox
+  private _translateHandles = new WeakMap<Feature, { handle: HandleFeature; strokeColor: Color | ColorLike }>()
+  private _strokeColors = new WeakMap<Feature, { style: StyleLike | undefined; color: Color | ColorLike | undefined }>()
+  private _delta: TransformDelta = { dx: 0, dy: 0, angle: 0, scaleX: 1, scaleY: 1 }
+  /**
+   * how each feature of the current gesture changed, by index in the selection
+   */
+  private _operations: FeatureOperation[] = []
+  /**
+   * a `beforetransform` listener replaced a geometry in the last step, so `_operations` do not describe it
+   */
+  private _adjusted = false
+  private _handleStyle?: (handle: HandleFeature, state: HandleStyleState) => Style | Style[]
+  private _highlightColor: string
+  private _cursors: boolean
+  private _geodesic: boolean
+  private _angleProperty: string
+  private _fitAngle: boolean
+  /**
+   * orientations found by `fitAngle` for features without `angleProperty`
+   */
+  private _fittedAngles = new WeakMap<Feature, number>()
+  private _flipProperty: string
+  private _boxSelect: boolean
+  private _subtractCondition: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  private _preventOverlap: boolean
+  private _obstacles?: VectorSource
+  private _boundary?: Polygon | MultiPolygon
+  private _collisionMode: "block" | "mark"
+  private _invalidColor: string
+  private _invalid: Feature[] = []
+  private _cloneCondition: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  /**
+   * the press met `cloneCondition`, so the first drag step copies the selection
+   */
+  private _cloneOnDrag = false
+  /**
+   * copies made by the current gesture and the features they were copied from
+   */
+  private _clones: { feature: Feature; source: VectorSource; original: Feature }[] = []
+  private _skewCondition: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  private _distortCondition: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  private _boxSelection?: {
+    startPixel: Pixel
+    operation: "replace" | "add" | "subtract"
+    feature: Feature<Polygon>
+  }
+  private _hoverHandle?: HandleFeature
+  /**
+   * the selectable feature or handle under the pointer
+   */
+  private _hoverFeature?: Feature
+  private _hoverHighlight?: Feature
+  private _activeIndex = -1
+  /**
+   * selected feature pressed under `addCondition`, removed from the selection if the press ends without a drag
+   */
+  private _pendingDeselect?: Feature
+  /**
+   * viewport cursor from before the interaction changed it
+   */
+  private _prevCursor?: string
+  private _vertexDeleteCondition: (evt: MapBrowserEvent<PointerEvent>) => boolean
+  /**
+   * the selected feature whose vertices are being edited
+   */
+  private _vertexFeature?: Feature
+  private _vertexSelection = {
+    path: [] as number[],
+    index: -1,
+    action: "move" as "move" | "insert" | "remove",
+    startCoord: [0, 0],
+    /**
+     * the dragged vertex was inserted on press
+     */
+    inserted: false,
+  }
 
   constructor(options: TransformOptions = {}) {
     super()
@@ -70,6 +500,63 @@ export default class Transform extends PointerInteraction {
     this._strokeWidth = options.strokeWidth ?? 1.7
     this._layers = options.layers ?? []
     this._shouldGetFeature = options.shouldGetFeature ?? (() => true)
+    this._selectAllFilter = options.selectAllFilter ?? (() => true)
+    this._history = new TransformHistory(options.historyDepth ?? 100)
+    this._keyboard = options.keyboard ?? false
+    this._nudgeStep = options.nudgeStep ?? 1
+    this._largeNudgeStep = options.largeNudgeStep ?? 10
+    this._nudgeUnit = options.nudgeUnit ?? "pixel"
+    this._rotateStep = options.rotateStep ?? Math.PI / 12
+    this._snappers = [...(options.snappers ?? [])]
+    if (options.snapGrid) {
+      this._snappers.push(new GridSnapper({ size: options.snapGrid }))
+    }
+    if (options.snapToFeatures) {
+      this._snappers.push(new FeatureSnapper({ layers: this._layers }))
+    }
+    this._snapTolerance = options.snapTolerance ?? 10
+    this._snapAngle = options.snapAngle ?? Math.PI / 12
+    this._snapAngleCondition = options.snapAngleCondition ?? ((evt) => evt.originalEvent.shiftKey)
+    this._constraints = {
+      keepAspectRatio: options.keepAspectRatio ?? false,
+      scaleFromCenter: options.scaleFromCenter ?? false,
+      axisLock: options.axisLock ?? false,
+    }
+    this._policy = options.policy
+    this._vertexEditing = options.vertexEditing ?? false
+    this._group = options.group ?? true
+    this._pivot = options.pivot
+    this._scaleAnchor = options.scaleAnchor ?? "opposite"
+    this._hitTolerance = options.hitTolerance ?? 0
+    this._touchHitTolerance = options.touchHitTolerance ?? 12
+    this._pinch = options.pinch ?? false
+    this._measure = options.measure ?? false
+    this._measureFormatter = options.measureFormatter ?? formatMeasurement
+    this._throttle = options.throttle ?? true
+    this._dragPreview = options.dragPreview ?? false
+    this._handleStyle = options.handleStyle
+    this._highlightColor = options.highlightColor ?? "rgba(0, 153, 255, 0.4)"
+    this._cursors = options.cursors ?? true
+    this._geodesic = options.geodesic ?? false
+    this._angleProperty = options.angleProperty ?? "angle"
+    this._fitAngle = options.fitAngle ?? true
+    this._flipProperty = options.flipProperty ?? "flipped"
+    this._boxSelect = options.boxSelect ?? false
+    this._subtractCondition = options.subtractCondition ?? ((evt) => evt.originalEvent.altKey)
+    this._preventOverlap = options.preventOverlap ?? false
+    this._obstacles = options.obstacles
+    this._boundary = options.boundary
+    this._collisionMode = options.collisionMode ?? "block"
+    this._invalidColor = options.invalidColor ?? "rgba(255, 0, 0, 1)"
+    this._cloneCondition = options.cloneCondition ?? ((evt) => evt.originalEvent.altKey)
+    this._skewCondition = options.skewCondition ?? ((evt) => evt.originalEvent.ctrlKey || evt.originalEvent.metaKey)
+    this._distortCondition = options.distortCondition ?? ((evt) => evt.originalEvent.ctrlKey || evt.originalEvent.metaKey)
+    this._vertexDeleteCondition = options.vertexDeleteCondition ?? ((evt) => evt.originalEvent.altKey)
+    this._constraintConditions = {
+      keepAspectRatio: options.keepAspectRatioCondition ?? ((evt) => evt.originalEvent.shiftKey),
+      scaleFromCenter: options.scaleFromCenterCondition ?? ((evt) => evt.originalEvent.altKey),
+      axisLock: options.axisLockCondition ?? ((evt) => evt.originalEvent.shiftKey),
+    }
     this._handleLayer = new VectorLayer({
       source: new VectorSource({
         features: new Collection<Feature<Geometry>>(),
@@ -79,18 +566,44 @@ export default class Transform extends PointerInteraction {
       ...options.layerOptions,
     })
 
-    this._selections.on(["add", "remove"], this._selectionsEvent)
+    this._imageLayer = new VectorLayer({
+      source: new VectorSource({ features: (options.imageLayers ?? []).map((layer) => new ImageFeature({ layer })) }),
+      // invisible, but hit by the pointer, and below the features of `layers`
+      style: new Style({ fill: new Fill({ color: "rgba(0, 0, 0, 0)" }) }),
+      zIndex: Number.MIN_SAFE_INTEGER,
+    })
+
+    this._selections.on("add", this._selectionsEvent)
+    this._selections.on("remove", this._selectionsEvent)
   }
 
   setMap(map: OlMap | null): void {
     const oldMap = this.getMap()
+    oldMap?.removeLayer(this._imageLayer)
     oldMap?.removeLayer(this._handleLayer)
+    this.setHoverFeature(undefined)
+    this.setCursor(undefined)
+    this.cancelDrag()
+    unByKey(this._mapListeners)
+    this._mapListeners = []
 
     super.setMap(map)
+    map?.addLayer(this._imageLayer)
     map?.addLayer(this._handleLayer)
+    if (map) {
+      // icon and text boxes have a fixed size in pixels
+      this._mapListeners.push(
+        map.on("moveend", () => {
+          if (this._mode === "" && this._selections.getArray().some((sel) => getSymbolStyles(sel).length > 0)) {
+            this.drawHandles()
+          }
+        }),
+      )
+    }
 
     if (!map) {
-      this._selections.un(["add", "remove"], this._selectionsEvent)
+      this._selections.un("add", this._selectionsEvent)
+      this._selections.un("remove", this._selectionsEvent)
     }
   }
 
@@ -106,276 +619,1796 @@ export default class Transform extends PointerInteraction {
     return this._selections
   }
 
-  get visible(): boolean {
-    return this._handleLayer.getVisible()
+  get isGroup(): boolean {
+    return this._group && this._selections.getLength() > 1
   }
 
-  setVisible(visible: boolean): this {
-    this._handleLayer.setVisible(visible)
+  setGroup(group: boolean): this {
+    this._group = group
+    this.drawHandles()
     return this
   }
 
-  protected handleDownEvent(evt: MapBrowserEvent<MouseEvent>) {
-    const handleOrBody = this.selectFeature(evt)
-    if (!handleOrBody && !this._addCondition(evt)) {
-      this._selections.clear()
-    }
-    this._prevSelections.clear()
-    this._prevSelections.extend(this._selections.getArray().map((feat) => feat.clone()))
-
-    this.dispatchTransformEvent("mousedown", evt)
+  /**
+   * the point the current selection rotates around
+   */
+  getPivot(): Coordinate | undefined {
+    return this._selections.getLength() > 0 ? this.calcPivots()[0] : undefined
+  }
 
-    if (!handleOrBody) {
-      return false
+  /**
+   * move the pivot of the current selection, it stays in place relative to the feature across selections
+   * @param coordinate `undefined` restores the default pivot
+   */
+  setPivot(coordinate?: Coordinate): this {
+    if (this._selections.getLength() === 0) {
+      return this
     }
-
-    // initial setting
-    this._startCoord = evt.coordinate
-
-    if (!HandleFeature.isHandleFeature(handleOrBody)) {
-      // is body
-      this._mode = "translate"
-      this._prevCoord = evt.coordinate
+    if (this.isGroup) {
+      this._groupPivot = coordinate && toBoxRelative(this.calcBox(this._selections.getArray()).coords, coordinate)
     } else {
-      this._mode = handleOrBody.mode
-      const feat = handleOrBody.body
-      const geom = feat.getGeometry()!
-
-      switch (this._mode) {
-        case "translate":
-          this._prevCoord = evt.coordinate
-          break
-        case "rotate":
-          const center = getCenter(geom.getExtent())
-          this._rotationSelection = {
-            angle: Math.atan2(this._startCoord[1] - center[1], this._startCoord[0] - center[0]),
-            center,
-          }
-          break
-        case "scale":
-          const angle = feat.get("angle") ?? 0
-          const normalGeo = geom.clone()
-          const normalCenter = getCenter(normalGeo.getExtent())
-          normalGeo.rotate(-angle, normalCenter)
-          const normalExt = normalGeo.getExtent()
-          const polygon = fromExtent(normalExt)
-          polygon.setCoordinates([rearrangeCoords(polygon.getCoordinates()[0])])
-          polygon.rotate(angle, normalCenter)
-          const coords = polygon.getCoordinates()[0]
-
-          const { index } = handleOrBody
-          const oppositeIdx = (index + Math.round(Transform.scaleHandlesLength * 0.5)) % Transform.scaleHandlesLength
-          const oppositeCoord = this.calcScaleHandleCoord(coords, oppositeIdx)
-          const startCoord = this.rotatePoint(this.calcScaleHandleCoord(coords, index), oppositeCoord, -angle)
-          this._scalingSelection = {
-            angle,
-            w: calcDistance(coords[1], coords[2]),
-            h: calcDistance(coords[0], coords[1]),
-            handleIdx: index,
-            oppositeIdx,
-            oppositeCoord,
-            startCoord,
-          }
-          break
+      const feat = this._selections.item(0)
+      if (coordinate) {
+        this._pivots.set(feat, toBoxRelative(this.calcBox([feat]).coords, coordinate))
+      } else {
+        this._pivots.delete(feat)
       }
     }
+    this.drawHandles()
+    return this
+  }
 
-    switch (this._mode) {
-      case "translate":
-        this.dispatchTransformEvent("translatestart", evt)
-        break
-      case "rotate":
-        this.dispatchTransformEvent("rotatestart", evt)
-        break
-      case "scale":
-        this.dispatchTransformEvent("scalestart", evt)
-        break
-    }
-    this.dispatchTransformEvent("transformstart", evt)
-
-    return true
+  /**
+   * replace the selection, or add to it
+   */
+  select(features: Feature[], add = false): this {
+    const after = add ? this._selections.getArray().slice() : []
+    features.forEach((feat) => {
+      if (!after.includes(feat)) {
+        after.push(feat)
+      }
+    })
+    this.changeSelection(after)
+    return this
   }
 
-  protected handleDragEvent(evt: MapBrowserEvent<MouseEvent>) {
-    this._handleLayer.getSource()!.clear()
-    this._updating = true
-    this._transformed = true
-
-    if (this._mode === "translate") {
-      const [x, y] = evt.coordinate
-      const [px, py] = this._prevCoord
-      this._prevCoord = [x, y]
-      const dx = x - px
-      const dy = y - py
-
-      this._selections.forEach((sel) => sel.getGeometry()!.translate(dx, dy))
-    } else if (this._mode === "rotate") {
-      const [x, y] = evt.coordinate
-      const { angle, center } = this._rotationSelection
-      const da = Math.atan2(y - center[1], x - center[0]) - angle
-
-      this._prevSelections.forEach((sel, i) => {
-        const geom = sel.getGeometry()!.clone()
-        const center = getCenter(geom.getExtent())
-        geom.rotate(da, center)
-        const angle: number | undefined = sel.get("angle")
-        if (angle !== undefined) {
-          sel.set("angle", (angle + da) % (2 * Math.PI))
-        }
-        this._selections.item(i).setGeometry(geom)
-      })
-    } else if (this._mode === "scale") {
-      const { angle, handleIdx, oppositeIdx, oppositeCoord, startCoord, w, h } = this._scalingSelection
-      const [sx, sy] = startCoord
-      const [x, y] = this.rotatePoint(evt.coordinate, oppositeCoord, -angle)
-
-      let dx = 0
-      let dy = 0
-      switch (handleIdx) {
-        case 0:
-          dx = sx - x
-          dy = y - sy
-          break
-        case 1:
-          dx = sx - x
-          break
-        case 2:
-          dx = sx - x
-          dy = sy - y
-          break
-        case 3:
-          dy = sy - y
-          break
-        case 4:
-          dx = x - sx
-          dy = sy - y
-          break
-        case 5:
-          dx = x - sx
-          break
-        case 6:
-          dx = x - sx
-          dy = y - sy
-          break
-        case 7:
-          dy = y - sy
-          break
+  /**
+   * select every feature of the vector sources in `layers`, and the images of `imageLayers`, that `selectAllFilter` accepts
+   */
+  selectAll(): this {
+    const features: Feature[] = []
+    this.getSelectableLayers().forEach((layer) => {
+      const source = layer.getSource()
+      if (source instanceof VectorSource) {
+        features.push(...source.getFeatures().filter((feat: Feature) => feat.getGeometry() && this._selectAllFilter(feat, layer)))
       }
+    })
+    return this.select(features)
+  }
 
-      const scaleX = dx / w + 1
-      const scaleY = dy / h + 1
-      this._headInverted = scaleY < 0
+  deselect(features: Feature[]): this {
+    this.changeSelection(this._selections.getArray().filter((feat) => !features.includes(feat)))
+    return this
+  }
 
-      this._prevSelections.forEach((sel, i) => {
-        const angle = sel.get("angle") ?? 0
-        const geom = sel.getGeometry()!.clone()
-        const normalGeo = geom.clone()
-        const normalCenter = getCenter(normalGeo.getExtent())
-        normalGeo.rotate(-angle, normalCenter)
-        const normalExt = normalGeo.getExtent()
-        const polygon = fromExtent(normalExt)
-        polygon.setCoordinates([rearrangeCoords(polygon.getCoordinates()[0])])
-        polygon.rotate(angle, normalCenter)
-        const coords = polygon.getCoordinates()[0]
+  clearSelection(): this {
+    this.changeSelection([])
+    return this
+  }
 
-        const oppositeCoord = this.calcScaleHandleCoord(coords, oppositeIdx)
+  /**
+   * whether the feature was left overlapping an obstacle or outside the boundary by `collisionMode: "mark"`
+   */
+  isInvalid(feat: Feature): boolean {
+    return this._invalid.includes(feat)
+  }
 
-        geom.rotate(-angle, oppositeCoord)
-        geom.scale(scaleX, scaleY, oppositeCoord)
-        geom.rotate(angle, oppositeCoord)
+  /**
+   * move the selection by map units, like dragging it
+   * @return false if a gesture is in progress, nothing is selected, a policy forbids translating
+   * or a `beforetransform` listener rejects it
+   */
+  translate(dx: number, dy: number): boolean {
+    return this.transformOnce("translate", undefined, () => this.translateWithinLimits(dx, dy))
+  }
 
-        this._selections.item(i).setGeometry(geom)
-      })
-    }
+  /**
+   * rotate the selection counter-clockwise, like dragging the rotate handle
+   * @param angle in radians
+   * @param pivot defaults to the pivot of each feature, or of the group
+   * @return false if a gesture is in progress, nothing is selected, a policy forbids rotating
+   * or a `beforetransform` listener rejects it
+   */
+  rotate(angle: number, pivot?: Coordinate): boolean {
+    return this.transformOnce("rotate", undefined, () => {
+      const pivots = pivot ? this._selections.getArray().map(() => pivot) : this.calcPivots()
+      this.rotateWithinLimits(angle, pivots)
+    })
+  }
 
-    switch (this._mode) {
-      case "translate":
-        this.dispatchTransformEvent("translating", evt)
-        break
-      case "rotate":
-        this.dispatchTransformEvent("rotating", evt)
-        break
-      case "scale":
-        this.dispatchTransformEvent("scaling", evt)
-        break
+  /**
+   * resize the rotated bounding box of the first feature, or of the group, to the given size in map units, or meters if `geodesic`,
+   * other features of a non-group selection are scaled by the same factors
+   * @param anchorIdx handle that stays in place, see `calcScaleHandleCoord`, also with `scaleAnchor: "pivot"`; the center if omitted
+   * @return false if `anchorIdx` is not an integer in 0 ~ 7, a gesture is in progress, nothing is selected,
+   * a policy forbids scaling or a `beforetransform` listener rejects it
+   */
+  scaleTo(width: number, height: number, anchorIdx?: number): boolean {
+    if (anchorIdx !== undefined && !(Number.isInteger(anchorIdx) && anchorIdx >= 0 && anchorIdx < Transform.scaleHandlesLength)) {
+      return false
     }
-    this.dispatchTransformEvent("transforming", evt)
+    return this.transformOnce("scale", undefined, () => {
+      const { coords } = this.calcPrevBox(this.isGroup ? undefined : this._prevSelections.item(0))
+      const w = this.measureDistance(coords[1], coords[2])
+      const h = this.measureDistance(coords[0], coords[1])
+      const [scaleX, scaleY] = this.clampScaleFactors(w === 0 ? 1 : width / w, h === 0 ? 1 : height / h)
+      this.clampToExtents((t) => this.scaleSelections(1 + t * (scaleX - 1), 1 + t * (scaleY - 1), anchorIdx ?? -1, anchorIdx === undefined))
+    })
+  }
+
+  /**
+   * mirror the selected features across the vertical axis of their box, or of the group box,
+   * through its center, or through the pivot with `scaleAnchor: "pivot"`
+   * @return false if a gesture is in progress, nothing is selected, a policy forbids flipping,
+   * the mirror would leave a policy extent or a `beforetransform` listener rejects it
+   */
+  flipHorizontal(): boolean {
+    return this.flip(-1, 1)
+  }
+
+  /**
+   * mirror the selected features across the horizontal axis of their box, see `flipHorizontal`
+   */
+  flipVertical(): boolean {
+    return this.flip(1, -1)
+  }
+
+  /**
+   * size, orientation and offset of the transformed feature, or group, in the current gesture
+   */
+  getMeasurement(): TransformMeasurement | undefined {
+    const target = this._target && this._selections.getArray().includes(this._target) ? this._target : this._selections.item(0)
+    const projection = this.getMap()?.getView().getProjection()
+    if (!target || !projection) {
+      return
+    }
+    const { coords } = this.calcBox(this.isGroup ? this._selections.getArray() : [target])
+    const { dx, dy, angle } = this._delta
+    const orientation = this.getAngle(target)
+
+    const origin = coords[1]
+    const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+    return {
+      mode: this._mode,
+      width: this.measureDistance(coords[1], coords[2]),
+      height: this.measureDistance(coords[0], coords[1]),
+      angle: toDegrees(normalizeAngle(orientation ?? angle)),
+      rotation: toDegrees(angle),
+      dx: Math.sign(dx) * this.measureDistance(origin, [origin[0] + dx, origin[1]]),
+      dy: Math.sign(dy) * this.measureDistance(origin, [origin[0], origin[1] + dy]),
+      distance: this.measureDistance(origin, [origin[0] + dx, origin[1] + dy]),
+      units: this.isGeodesic() ? "m" : projection.getUnits(),
+    }
+  }
+
+  /**
+   * replay an operation from `transformend` on the features of `layers` or `imageLayers` with the same ids,
+   * without events or history
+   * @return false if a gesture is in progress or a feature is not found
+   */
+  applyOperation(operation: TransformOperation): boolean {
+    if (this._mode !== "") {
+      return false
+    }
+    const features = operation.features.map(({ id }) => (id === undefined ? undefined : this.getFeatureById(id)))
+    if (features.some((feat) => !feat)) {
+      return false
+    }
+    this._updating = true
+    operation.features.forEach((featureOperation, i) => this.applyFeatureOperation(features[i]!, features[i]!, featureOperation))
+    this._updating = false
+    this.syncImages()
+    this.drawHandles()
+    return true
+  }
+
+  /**
+   * add `count` copies of each selected feature to its source, the n-th copy translated by n times (dx, dy)
+   * and rotated by n times `angle` around the pivot of the feature, or of the group
+   * @return the copies
+   */
+  duplicate(count: number, { dx = 0, dy = 0, angle = 0 }: { dx?: number; dy?: number; angle?: number } = {}): Feature[] {
+    const features = this._selections.getArray()
+    const pivots = this.calcPivots()
+    const groupOrigin = this.isGroup ? this.getPlane(features).origin : undefined
+    const copies: Feature[] = []
+    const originals: Feature[] = []
+
+    features.forEach((feat, i) => {
+      const source = this.getSourceOf(feat)
+      if (!source) {
+        return
+      }
+      const origin = groupOrigin ?? this.getPlane([feat]).origin
+      for (let n = 1; n <= count; n++) {
+        const copy = feat.clone()
+        this.applyFeatureOperation(feat, copy, {
+          id: undefined,
+          origin,
+          rotate: angle ? { angle: n * angle, pivot: pivots[i] } : undefined,
+          translate: { dx: n * dx, dy: n * dy },
+        })
+        source.addFeature(copy)
+        copies.push(copy)
+        originals.push(feat)
+      }
+    })
+    if (copies.length > 0) {
+      this.dispatchEvent(new TransformDuplicateEvent({ type: "duplicate", target: this, features: copies, originals }))
+    }
+    return copies
+  }
+
+  get vertexFeature(): Feature | undefined {
+    return this._vertexFeature
+  }
+
+  /**
+   * start editing the vertices of a selected line or polygon, or stop with `undefined`
+   * @return false if the feature is not selected or its geometry has no editable vertices
+   */
+  setVertexFeature(feat?: Feature): boolean {
+    if (feat) {
+      const geom = feat.getGeometry()
+      if (!this._selections.getArray().includes(feat) || !geom || !isVertexGeometry(geom) || this.getPolicy(feat).vertex === false) {
+        return false
+      }
+    }
+    this._vertexFeature = feat
+    this.drawHandles()
+    return true
+  }
+
+  get visible(): boolean {
+    return this._handleLayer.getVisible()
+  }
+
+  setVisible(visible: boolean): this {
+    this._handleLayer.setVisible(visible)
+    return this
+  }
+
+  get canUndo(): boolean {
+    return this._history.canUndo
+  }
+
+  get canRedo(): boolean {
+    return this._history.canRedo
+  }
+
+  setHistoryDepth(depth: number): this {
+    if (this._history.setDepth(depth)) {
+      this.dispatchHistoryEvent("trim")
+    }
+    return this
+  }
+
+  /**
+   * restore the geometries and angles from before the last transform, and remove the copies it dragged off in favor of their originals
+   * @return false if there was nothing to undo or a transform is in progress
+   */
+  undo(): boolean {
+    if (this._mode !== "" || !this._history.canUndo) {
+      return false
+    }
+    const entry = this._history.undo()!
+    this.applySnapshots(entry.features, entry.before)
+    if (entry.added) {
+      const added = entry.added
+      this.changeSelection(this._selections.getArray().map((feat) => added.find((clone) => clone.feature === feat)?.original ?? feat))
+      added.forEach(({ feature, source }) => source.removeFeature(feature))
+    }
+    this.dispatchHistoryEvent("undo")
+    return true
+  }
+
+  /**
+   * reapply the last undone transform
+   * @return false if there was nothing to redo or a transform is in progress
+   */
+  redo(): boolean {
+    if (this._mode !== "" || !this._history.canRedo) {
+      return false
+    }
+    const entry = this._history.redo()!
+    if (entry.added) {
+      const added = entry.added
+      added.forEach(({ feature, source }) => source.addFeature(feature))
+      this.changeSelection(this._selections.getArray().map((feat) => added.find((clone) => clone.original === feat)?.feature ?? feat))
+    }
+    this.applySnapshots(entry.features, entry.after)
+    this.dispatchHistoryEvent("redo")
+    return true
+  }
+
+  clearHistory(): void {
+    this._history.clear()
+    this.dispatchHistoryEvent("clear")
+  }
+
+  protected handleDownEvent(evt: MapBrowserEvent<PointerEvent>) {
+    let handleOrBody = this.findFeature(evt)
+    const selection = this._selections.getArray()
+    this._pendingDeselect = undefined
+    if (!handleOrBody) {
+      if (!this._addCondition(evt) && !(this._boxSelect && this._subtractCondition(evt))) {
+        this.changeSelection([], evt)
+      }
+    } else if (!HandleFeature.isHandleFeature(handleOrBody)) {
+      const adding = this._addCondition(evt)
+      if (selection.includes(handleOrBody)) {
+        // wait for the release, a drag keeps the selection
+        this._pendingDeselect = adding ? handleOrBody : undefined
+      } else if (!this.changeSelection(adding ? [...selection, handleOrBody] : [handleOrBody], evt)) {
+        // kept out by a `beforeselect` listener
+        handleOrBody = undefined
+      }
+    }
+    const translating = handleOrBody && (!HandleFeature.isHandleFeature(handleOrBody) || handleOrBody.mode === "translate")
+    // a click does not leave copies behind
+    this._cloneOnDrag = !!translating && this._cloneCondition(evt) && this.isAllowed("translate")
+    this._clones = []
+    this.takePrevSelections()
+
+    this.dispatchTransformEvent("mousedown", evt)
+
+    if (!handleOrBody) {
+      if (this._boxSelect) {
+        this.startBoxSelection(evt)
+        return true
+      }
+      return false
+    }
+
+    // initial setting
+    this._startCoord = evt.coordinate
+
+    this._target = HandleFeature.isHandleFeature(handleOrBody) ? handleOrBody.body : handleOrBody
+    this._activeIndex = HandleFeature.isHandleFeature(handleOrBody) ? handleOrBody.index : -1
+
+    if (!HandleFeature.isHandleFeature(handleOrBody)) {
+      // is body
+      this._mode = "translate"
+    } else {
+      this._mode = handleOrBody.mode
+      const feat = handleOrBody.body
+      const geom = feat.getGeometry()!
+
+      switch (this._mode) {
+        case "rotate":
+          const pivots = this.calcPivots()
+          const center = pivots[this._selections.getArray().indexOf(feat)] ?? getCenter(geom.getExtent())
+          this._rotationSelection = {
+            angle: Math.atan2(this._startCoord[1] - center[1], this._startCoord[0] - center[0]),
+            center,
+            pivots,
+          }
+          break
+        case "scale":
+          const boxFeatures = this.isGroup ? this._selections.getArray() : [feat]
+          const { angle, coords } = this.calcBox(boxFeatures)
+
+          const { index } = handleOrBody
+          this._scalingSelection = {
+            angle,
+            coords,
+            handleIdx: index,
+            oppositeIdx: (index + Math.round(Transform.scaleHandlesLength * 0.5)) % Transform.scaleHandlesLength,
+            pivots: this.calcPivots(),
+            targetIdx: Math.max(0, this._selections.getArray().indexOf(feat)),
+            plane: this.getPlane(boxFeatures),
+          }
+          const shape = index % 2 === 1 ? "skew" : "distort"
+          if ((shape === "skew" ? this._skewCondition(evt) : this._distortCondition(evt)) && this.isAllowed(shape)) {
+            this._mode = shape
+          }
+          break
+        case "pivot":
+          this._pivotCoord = (handleOrBody.getGeometry() as Point).getCoordinates()
+          break
+        case "vertex":
+          const { path, midpoint } = handleOrBody
+          this._vertexSelection = {
+            path,
+            index: handleOrBody.index,
+            action: midpoint ? "insert" : this._vertexDeleteCondition(evt) ? "remove" : "move",
+            startCoord: midpoint ? evt.coordinate : (handleOrBody.getGeometry() as Point).getCoordinates(),
+            inserted: false,
+          }
+          break
+      }
+    }
+
+    if (!this.isAllowed(this._mode)) {
+      // keep the pointer sequence so the map does not pan, but ignore the drag
+      this._mode = ""
+      return true
+    }
+
+    this._delta = { dx: 0, dy: 0, angle: 0, scaleX: 1, scaleY: 1 }
+    this._operations = []
+    this._adjusted = false
+    this.dispatchModeEvent(this._mode, "start", evt)
+    if (this._mode === "pivot") {
+      // moving the pivot does not change any geometry
+      return true
+    }
+    this.dispatchTransformEvent("transformstart", evt)
+
+    if (this._mode === "vertex" && this._vertexSelection.action !== "move") {
+      const { path, index, action, startCoord } = this._vertexSelection
+      const geom = this._target.getGeometry() as VertexGeometry
+      const edit: VertexEdit = { type: action, coordinate: startCoord }
+      this._updating = true
+      let edited = false
+      this.transformStep(evt, () => (edited = editVertex(geom, path, index, edit)))
+      this._updating = false
+      if (edited) {
+        this.recordVertexOperation(edit)
+      }
+      // a removal is complete on press, an inserted vertex is dragged like any other
+      this._transformed = edited
+      this._vertexSelection.action = action === "insert" ? "move" : action
+      this._vertexSelection.inserted = action === "insert"
+    }
+
+    return true
+  }
+
+  protected handleDragEvent(evt: MapBrowserEvent<PointerEvent>) {
+    this._pendingDeselect = undefined
+    if (!this._throttle) {
+      this.applyDrag(evt)
+      return
+    }
+    this._pendingDrag = evt
+    this._dragFrame ??= requestAnimationFrame(() => this.flushDrag())
+  }
+
+  /**
+   * apply the drag waiting for the next animation frame right away
+   */
+  private flushDrag(): void {
+    const evt = this._pendingDrag
+    this.cancelDrag()
+    if (evt) {
+      this.applyDrag(evt)
+    }
+  }
+
+  private cancelDrag(): void {
+    if (this._dragFrame !== undefined) {
+      cancelAnimationFrame(this._dragFrame)
+    }
+    this._dragFrame = undefined
+    this._pendingDrag = undefined
+  }
+
+  private applyDrag(evt: MapBrowserEvent<PointerEvent>): void {
+    if (this._boxSelection) {
+      this._boxSelection.feature.setGeometry(this.calcPixelBox(this._boxSelection.startPixel, evt.pixel))
+      return
+    }
+    if (this._mode === "" || (this._mode === "vertex" && this._vertexSelection.action === "remove")) {
+      // canceled by keyboard while the pointer is still down, or nothing left to drag
+      return
+    }
+    if (this._cloneOnDrag) {
+      this._cloneOnDrag = false
+      this.cloneSelections(evt)
+    }
+    if (this._mode !== "pivot") {
+      this.startPreview()
+    }
+    if (this._pinch && (this._pinching || (this.targetPointers.length > 1 && this._mode === "translate"))) {
+      this.handlePinchEvent(evt)
+      return
+    }
+    if (this._mode === "pivot") {
+      const snapped = this.snapCoordinate(evt.coordinate)
+      this._pivotCoord = snapped?.coordinate ?? evt.coordinate
+      this.showHandles([this.genPivotHandle(this._selections.item(0), this._pivotCoord)])
+      this.dispatchModeEvent(this._mode, "ing", evt)
+      return
+    }
+
+    this._updating = true
+
+    const accepted = this.transformStep(evt, () => {
+      if (this._mode === "translate") {
+        const [x, y] = evt.coordinate
+        const [sx, sy] = this._startCoord
+        let dx = x - sx
+        let dy = y - sy
+        const lockedAxis = this.isConstrained("axisLock", evt) ? (Math.abs(dx) >= Math.abs(dy) ? "y" : "x") : undefined
+
+        const snapped = this.snapTranslation(lockedAxis === "x" ? 0 : dx, lockedAxis === "y" ? 0 : dy)
+        if (snapped) {
+          dx += snapped.dx
+          dy += snapped.dy
+          this.drawSnapIndicator(snapped.result)
+        }
+        this.translateWithinLimits(lockedAxis === "x" ? 0 : dx, lockedAxis === "y" ? 0 : dy)
+      } else if (this._mode === "rotate") {
+        const [x, y] = evt.coordinate
+        const { angle, center } = this._rotationSelection
+        let da = Math.atan2(y - center[1], x - center[0]) - angle
+
+        if (this._snapAngle > 0 && this._snapAngleCondition(evt)) {
+          const prev = this._prevSelections.item(0)
+          const baseAngle = (prev && this.getAngle(prev)) ?? 0
+          da = Math.round((baseAngle + da) / this._snapAngle) * this._snapAngle - baseAngle
+        }
+        this.rotateWithinLimits(da, this._rotationSelection.pivots)
+      } else if (this._mode === "scale") {
+        const { angle, coords, handleIdx, oppositeIdx, pivots, targetIdx, plane } = this._scalingSelection
+        const fromCenter = this.isConstrained("scaleFromCenter", evt)
+        const anchor = this.calcScaleAnchor(coords, oppositeIdx, fromCenter, pivots[targetIdx])
+        const snapped = this.snapCoordinate(evt.coordinate)
+        if (snapped) {
+          this.drawSnapIndicator(snapped)
+        }
+
+        // compare the pointer with the dragged handle in the unrotated frame around the anchor
+        const planeAnchor = plane.toPlane(anchor)
+        const [ax, ay] = planeAnchor
+        const [x, y] = this.rotatePoint(plane.toPlane(snapped?.coordinate ?? evt.coordinate), planeAnchor, -angle)
+        const [hx, hy] = this.rotatePoint(plane.toPlane(this.calcScaleHandleCoord(coords, handleIdx)), planeAnchor, -angle)
+        // edge handles 1 and 5 only scale horizontally, 3 and 7 only vertically
+        let freeX = handleIdx % 4 === 3 || Math.abs(hx - ax) < 1e-9 ? 1 : (x - ax) / (hx - ax)
+        let freeY = handleIdx % 4 === 1 || Math.abs(hy - ay) < 1e-9 ? 1 : (y - ay) / (hy - ay)
+        const locked = handleIdx % 2 === 0 && this.isConstrained("keepAspectRatio", evt)
+        if (locked) {
+          const uniform = Math.max(Math.abs(freeX), Math.abs(freeY))
+          freeX = (Math.sign(freeX) || 1) * uniform
+          freeY = (Math.sign(freeY) || 1) * uniform
+        }
+        const [scaleX, scaleY] = this.clampScaleFactors(freeX, freeY, locked)
+
+        this.clampToExtents((t) => this.scaleSelections(1 + t * (scaleX - 1), 1 + t * (scaleY - 1), oppositeIdx, fromCenter, pivots))
+      } else if (this._mode === "skew" || this._mode === "distort") {
+        const { coords, handleIdx } = this._scalingSelection
+        const snapped = this.snapCoordinate(evt.coordinate)
+        if (snapped) {
+          this.drawSnapIndicator(snapped)
+        }
+        // move the corners in the frame of the box, where tl, bl, br and tr are [0, 1], [0, 0], [1, 0] and [1, 1]
+        const [u, v] = toBoxRelative(coords, snapped?.coordinate ?? evt.coordinate)
+        const [hu, hv] = toBoxRelative(coords, this.calcScaleHandleCoord(coords, handleIdx))
+        const corners = [
+          [0, 1],
+          [0, 0],
+          [1, 0],
+          [1, 1],
+        ]
+        // edge handles 1 and 5 shear along the vertical edges, 3 and 7 along the horizontal ones
+        const moved = this._mode === "distort" ? [handleIdx / 2] : [(handleIdx - 1) / 2, ((handleIdx + 1) / 2) % 4]
+        const [du, dv] = this._mode === "distort" ? [u - hu, v - hv] : handleIdx % 4 === 1 ? [0, v - hv] : [u - hu, 0]
+
+        this.clampToExtents((t) =>
+          this.projectSelections(corners.map(([cu, cv], i) => (moved.includes(i) ? [cu + t * du, cv + t * dv] : [cu, cv]))),
+        )
+      } else if (this._mode === "vertex") {
+        const { path, index, startCoord } = this._vertexSelection
+        const snapped = this.snapCoordinate(evt.coordinate)
+        if (snapped) {
+          this.drawSnapIndicator(snapped)
+        }
+        const [x, y] = snapped?.coordinate ?? evt.coordinate
+        const [sx, sy] = startCoord
+        const geom = this._target!.getGeometry() as VertexGeometry
+
+        let coordinate = startCoord
+        this.clampToExtents((t) => {
+          coordinate = [sx + t * (x - sx), sy + t * (y - sy)]
+          editVertex(geom, path, index, { type: "set", coordinate })
+        })
+        this.recordVertexOperation({ type: this._vertexSelection.inserted ? "insert" : "set", coordinate })
+      }
+    })
+
+    this.drawDragMarks()
+    if (accepted) {
+      // a gesture whose steps were all rejected ends without `transformend`, like a press without a drag
+      this._transformed = true
+      this.dispatchModeEvent(this._mode, "ing", evt)
+      this.dispatchTransformEvent("transforming", evt)
+    }
+    this._updating = false
+  }
+
+  protected handleUpEvent(evt: MapBrowserEvent<PointerEvent>): boolean {
+    this.flushDrag()
+    if (this._boxSelection) {
+      this.finishBoxSelection(evt)
+      return false
+    }
+    if (this._mode === "pivot") {
+      this.setPivot(this._pivotCoord)
+      this.dispatchModeEvent(this._mode, "end", evt, this._pivotCoord)
+      this._mode = ""
+      return false
+    }
+
+    this.endPreview()
+    this.dispatchTransformEvent("mouseup", evt)
+
+    if (this._transformed) {
+      this.syncImages()
+      if (this._pinching) {
+        this.dispatchModeEvent("rotate", "end", evt)
+      }
+      this.dispatchModeEvent(this._mode, "end", evt)
+      this.dispatchTransformEvent("transformend", evt)
+      this.recordHistory()
+    } else {
+      // every step was rejected
+      this.discardClones(evt)
+    }
+    this._cloneOnDrag = false
+
+    this.drawHandles()
+    this._mode = ""
+    this._transformed = false
+    this._pinching = false
+
+    const pendingDeselect = this._pendingDeselect
+    this._pendingDeselect = undefined
+    if (pendingDeselect) {
+      this.changeSelection(
+        this._selections.getArray().filter((feat) => feat !== pendingDeselect),
+        evt,
+      )
+    }
+
+    return false
+  }
+
+  handleEvent(e: MapBrowserEvent<PointerEvent | KeyboardEvent>): boolean {
+    if (e.type === "keydown") {
+      return this._keyboard ? this.handleKeyEvent(e as MapBrowserEvent<KeyboardEvent>) : true
+    }
+    switch (e.type) {
+      case "click":
+        this.dispatchTransformEvent("click", e)
+        break
+      case "singleclick":
+        this.dispatchTransformEvent("singleclick", e)
+        break
+      case "dblclick":
+        this.dispatchTransformEvent("dblclick", e)
+        if (this._vertexEditing && this.toggleVertexFeature(e as MapBrowserEvent<PointerEvent>)) {
+          // keep the map from zooming
+          return false
+        }
+        break
+      case "pointerup":
+        this.dispatchTransformEvent("pointerup", e)
+        break
+      case "pointerdown":
+        this.dispatchTransformEvent("pointerdown", e)
+        if (this.handlingDownUpSequence && this._mode !== "") {
+          // keep a second finger from starting the map's own pinch interactions
+          super.handleEvent(e)
+          return false
+        }
+        break
+      case "pointermove":
+        this.dispatchTransformEvent("pointermove", e)
+        break
+    }
+    return super.handleEvent(e)
+  }
+
+  /**
+   * a second pointer during a translate turns the gesture into a pinch that scales and rotates
+   * around the pointers' centroid, the base geometries are taken when the pinch starts
+   */
+  private handlePinchEvent(evt: MapBrowserEvent<PointerEvent>): void {
+    const map = this.getMap()
+    if (!map || this.targetPointers.length < 2) {
+      // a throttled step applied after a finger was lifted
+      return
+    }
+    const [c1, c2] = this.targetPointers.slice(0, 2).map((pointer) => map.getCoordinateFromPixel(map.getEventPixel(pointer)))
+    const center = getCenter(boundingExtent([c1, c2]))
+    const distance = calcDistance(c1, c2)
+    const angle = Math.atan2(c2[1] - c1[1], c2[0] - c1[0])
+
+    if (!this._pinching) {
+      this._pinching = true
+      this.dispatchModeEvent(this._mode, "end", evt)
+      this._mode = "scale"
+      this._pinchSelection = {
+        center,
+        distance,
+        angle,
+        offset: [this._delta.dx, this._delta.dy],
+        origin: this.getPlane(this._prevSelections.getArray()).origin,
+      }
+      this.dispatchModeEvent("scale", "start", evt, center)
+      this.dispatchModeEvent("rotate", "start", evt, center)
+      return
+    }
+
+    this._updating = true
+
+    const start = this._pinchSelection
+    const scale = this.isAllowed("scale") && start.distance > 0 ? distance / start.distance : 1
+    const [scaleX, scaleY] = this.clampScaleFactors(scale, scale, true)
+    const da = this.isAllowed("rotate") ? angle - start.angle : 0
+    const dx = this.isAllowed("translate") ? center[0] - start.center[0] : 0
+    const dy = this.isAllowed("translate") ? center[1] - start.center[1] : 0
+
+    const accepted = this.transformStep(evt, () =>
+      this.clampToExtents((t) => {
+        // the base features are those from before the gesture, so the pinch turns around where its center was then
+        const [ox, oy] = start.offset
+        const center = [start.center[0] - ox, start.center[1] - oy]
+        const [sx, sy] = [1 + t * (scaleX - 1), 1 + t * (scaleY - 1)]
+        this._prevSelections.forEach((sel, i) => {
+          const operation = {
+            id: sel.getId(),
+            origin: start.origin,
+            scale: { scaleX: sx, scaleY: sy, anchor: center, angle: 0 },
+            rotate: { angle: t * da, pivot: center },
+            translate: { dx: ox + t * dx, dy: oy + t * dy },
+          }
+          this.applyFeatureOperation(sel, this._selections.item(i), operation, i)
+        })
+        this._delta = { dx: ox + t * dx, dy: oy + t * dy, angle: t * da, scaleX: sx, scaleY: sy }
+      }),
+    )
+    this.drawDragMarks()
+
+    if (accepted) {
+      this._transformed = true
+      this.dispatchModeEvent("scale", "ing", evt, center)
+      this.dispatchModeEvent("rotate", "ing", evt, center)
+      this.dispatchTransformEvent("transforming", evt, center)
+    }
+    this._updating = false
+  }
+
+  /**
+   * show the snap indicators, invalid marks and measurement of a drag step in place of the other handles
+   */
+  private drawDragMarks(): void {
+    const label = this.genMeasurementLabel()
+    this.showHandles([...this._snapIndicators, ...this.genInvalidMarks(), ...(label ? [label] : [])])
+    this._snapIndicators = []
+  }
+
+  /**
+   * outline the features marked as invalid while the other handles are hidden
+   */
+  private genInvalidMarks(): Feature[] {
+    return this._collisionMode === "mark" ? this._invalid.map((feat) => this.genTranslateHandle(feat)) : []
+  }
+
+  private genMeasurementLabel(): Feature | undefined {
+    const measurement = this._measure ? this.getMeasurement() : undefined
+    if (!measurement) {
+      return
+    }
+    const { center } = this.calcBox(this.isGroup ? this._selections.getArray() : [this._target ?? this._selections.item(0)])
+    const label = new Feature(new Point(center))
+    label.setStyle(
+      new Style({
+        text: new Text({
+          text: this._measureFormatter(measurement),
+          font: "12px sans-serif",
+          fill: new Fill({ color: "black" }),
+          backgroundFill: new Fill({ color: "rgba(255, 255, 255, 0.8)" }),
+          padding: [2, 4, 2, 4],
+        }),
+      }),
+    )
+    return label
+  }
+
+  protected handleMoveEvent(evt: MapBrowserEvent<PointerEvent>): void {
+    const map = this.getMap()
+    if (!map) {
+      return
+    }
+    const selectable = this.getSelectableLayers()
+    const hovered = map.forEachFeatureAtPixel(
+      evt.pixel,
+      (feat, layer) => {
+        if (!(feat instanceof Feature) || !feat.getGeometry() || !this._shouldGetFeature(evt, feat, layer)) {
+          return
+        }
+        // skip transient features like the snap indicator
+        return layer !== this._handleLayer || HandleFeature.isHandleFeature(feat) ? feat : undefined
+      },
+      {
+        layerFilter: (layer) => layer === this._handleLayer || selectable.includes(layer),
+        hitTolerance: this.getHitTolerance(evt),
+      },
+    )
+    this.setHoverFeature(hovered, evt)
+  }
+
+  /**
+   * highlight the feature or handle under the pointer and dispatch `hoverend` and `hoverstart` if it changed
+   */
+  private setHoverFeature(feat: Feature | undefined, evt?: MapBrowserEvent<PointerEvent>): void {
+    if (feat === this._hoverFeature) {
+      return
+    }
+    const prev = this._hoverFeature
+    this._hoverFeature = feat
+    const handle = feat && HandleFeature.isHandleFeature(feat) ? feat : undefined
+    const prevHandle = this._hoverHandle
+    this._hoverHandle = handle
+    prevHandle?.changed()
+    handle?.changed()
+    this.drawHoverHighlight()
+    this.setCursor(handle ? this.getHandleCursor(handle) : feat && "pointer")
+
+    if (prev) {
+      this.dispatchEvent(new TransformHoverEvent({ type: "hoverend", target: this, feature: prev, mapBrowserEvent: evt }))
+    }
+    if (feat) {
+      this.dispatchEvent(new TransformHoverEvent({ type: "hoverstart", target: this, feature: feat, mapBrowserEvent: evt }))
+    }
+  }
+
+  /**
+   * outline the hovered feature unless it is a handle or selected
+   */
+  private drawHoverHighlight(): void {
+    const source = this._handleLayer.getSource()!
+    if (this._hoverHighlight && source.hasFeature(this._hoverHighlight)) {
+      source.removeFeature(this._hoverHighlight)
+    }
+    const feat = this._hoverFeature
+    this._hoverHighlight = undefined
+    if (!feat || HandleFeature.isHandleFeature(feat) || this._selections.getArray().includes(feat)) {
+      return
+    }
+    const footprint = this.getFootprint(feat)
+    this._hoverHighlight = new Feature(footprint)
+    this._hoverHighlight.setStyle(this.createHighlightStyle(footprint))
+    source.addFeature(this._hoverHighlight)
+  }
+
+  /**
+   * resize cursors follow the rotation of the box and the view
+   */
+  private getHandleCursor(handle: HandleFeature): string {
+    switch (handle.mode) {
+      case "translate":
+        return "move"
+      case "rotate":
+        return "grab"
+      case "pivot":
+        return "crosshair"
+      case "vertex":
+        return "pointer"
+      case "scale":
+        const boxAngle = this.calcBox(this.isGroup ? this._selections.getArray() : [handle.body]).angle
+        const viewRotation = this.getMap()?.getView().getRotation() ?? 0
+        // handle 5 points east, every following index turns 45 degrees counter-clockwise
+        // the view rotates clockwise
+        const direction = (((handle.index + 3) % 8) * 45 + ((boxAngle - viewRotation) * 180) / Math.PI) % 180
+        const normalized = (direction + 180) % 180
+        if (normalized < 22.5 || normalized >= 157.5) {
+          return "ew-resize"
+        }
+        if (normalized < 67.5) {
+          return "nesw-resize"
+        }
+        return normalized < 112.5 ? "ns-resize" : "nwse-resize"
+      default:
+        return ""
+    }
+  }
+
+  private setCursor(cursor: string | undefined): void {
+    const viewport = this.getMap()?.getViewport()
+    if (!this._cursors || !viewport) {
+      return
+    }
+    if (cursor) {
+      this._prevCursor ??= viewport.style.cursor
+      viewport.style.cursor = cursor
+    } else if (this._prevCursor !== undefined) {
+      viewport.style.cursor = this._prevCursor
+      this._prevCursor = undefined
+    }
+  }
+
+  private getHitTolerance(evt: MapBrowserEvent<PointerEvent>): number {
+    const { pointerType } = evt.originalEvent
+    return pointerType === "touch" || pointerType === "pen" ? this._touchHitTolerance : this._hitTolerance
+  }
+
+  /**
+   * @return false if the key was consumed
+   */
+  private handleKeyEvent(evt: MapBrowserEvent<KeyboardEvent>): boolean {
+    const { key, shiftKey } = evt.originalEvent
+
+    if (key === "Escape") {
+      if (this._mode === "" && this._vertexFeature) {
+        this.setVertexFeature(undefined)
+        return false
+      }
+      if (this._mode === "") {
+        return true
+      }
+      this.cancelTransform(evt)
+      evt.preventDefault()
+      return false
+    }
+    if (this._mode !== "" || this._selections.getLength() === 0) {
+      return true
+    }
+
+    const step = shiftKey ? this._largeNudgeStep : this._nudgeStep
+    const distance = this._nudgeUnit === "pixel" ? step * (this.getMap()?.getView().getResolution() ?? 1) : step
+    switch (key) {
+      case "ArrowLeft":
+        this.transformOnce("translate", evt, () => this.translateWithinLimits(-distance, 0))
+        break
+      case "ArrowRight":
+        this.transformOnce("translate", evt, () => this.translateWithinLimits(distance, 0))
+        break
+      case "ArrowUp":
+        this.transformOnce("translate", evt, () => this.translateWithinLimits(0, distance))
+        break
+      case "ArrowDown":
+        this.transformOnce("translate", evt, () => this.translateWithinLimits(0, -distance))
+        break
+      case "[":
+        this.transformOnce("rotate", evt, () => this.rotateWithinLimits(this._rotateStep, this.calcPivots()))
+        break
+      case "]":
+        this.transformOnce("rotate", evt, () => this.rotateWithinLimits(-this._rotateStep, this.calcPivots()))
+        break
+      case "Delete":
+      case "Backspace":
+        this.dispatchTransformEvent("delete", evt, this.getSelectionsCenter())
+        break
+      default:
+        return true
+    }
+    evt.preventDefault()
+    return false
+  }
+
+  /**
+   * run a whole start-ing-end transform cycle for a key press or an API call
+   * @return false if a gesture is in progress, nothing is selected, a policy forbids the mode
+   * or a `beforetransform` listener rejects it
+   */
+  private transformOnce(
+    mode: "translate" | "rotate" | "scale" | "flip",
+    evt: MapBrowserEvent<KeyboardEvent> | undefined,
+    transform: () => boolean | void,
+  ): boolean {
+    if (this._mode !== "" || this._selections.getLength() === 0 || !this.isAllowed(mode)) {
+      return false
+    }
+    this.takePrevSelections()
+    this._mode = mode
+    this._startCoord = this.getSelectionsCenter()
+    this._delta = { dx: 0, dy: 0, angle: 0, scaleX: 1, scaleY: 1 }
+    this._operations = []
+    this._adjusted = false
+
+    // a rejected transform did not happen, so the start events wait for the step but show the features before it
+    const startEvents = [
+      this.createTransformEvent(Transform.modeEvents[mode].start, evt, this._startCoord),
+      this.createTransformEvent("transformstart", evt, this._startCoord),
+    ]
+    this._updating = true
+    const accepted = this.transformStep(evt, transform)
+    this._updating = false
+    if (accepted) {
+      const coordinate = this.getSelectionsCenter()
+      startEvents.forEach((event) => this.dispatchEvent(event))
+      this.dispatchModeEvent(mode, "ing", evt, coordinate)
+      this.dispatchTransformEvent("transforming", evt, coordinate)
+      this.syncImages()
+      this.dispatchModeEvent(mode, "end", evt, coordinate)
+      this.dispatchTransformEvent("transformend", evt, coordinate)
+      this.recordHistory()
+    }
+
+    this.drawHandles()
+    this._mode = ""
+    return accepted
+  }
+
+  /**
+   * apply one step of a gesture and let `beforetransform` listeners adjust the resulting geometries,
+   * or reject the step, which restores the features as they were before it
+   * @param step returns false to reject itself after leaving the features as they were
+   * @return false if the step was rejected
+   */
+  private transformStep(evt: MapBrowserEvent<PointerEvent | KeyboardEvent> | undefined, step: () => boolean | void): boolean {
+    const features = this._selections.getArray().slice()
+    const blocking = this._collisionMode === "block" && (this._preventOverlap || !!this._boundary)
+    const listening = this.hasListener("beforetransform")
+    // only a collision or a listener can reject the step
+    const snapshots = blocking || listening ? this.takeSnapshots(features) : []
+    const delta = this._delta
+    const operations = this._operations.slice()
+    const adjusted = this._adjusted
+    const invalidBefore = this._collisionMode === "block" ? this.findCollisions(features).invalid : []
+    const reject = (restore: boolean) => {
+      if (restore) {
+        this.restoreSnapshots(features, snapshots)
+      }
+      this._delta = delta
+      this._operations = operations
+      this._adjusted = adjusted
+      return false
+    }
+    if (step() === false) {
+      return reject(false)
+    }
+    this._adjusted = false
+    if (!this.checkCollisions(features, invalidBefore, evt)) {
+      return reject(true)
+    }
+    if (!listening) {
+      return true
+    }
+
+    const event = this.createTransformEvent("beforetransform", evt)
+    const proposed = event.geometries.slice()
+    this.dispatchEvent(event)
+    if (event.defaultPrevented) {
+      return reject(true)
+    }
+    features.forEach((feat, i) => {
+      if (event.geometries[i] !== proposed[i]) {
+        // the next step writes into the feature's geometry, not into the listener's
+        feat.setGeometry(event.geometries[i].clone())
+        this._adjusted = true
+      }
+    })
+    // the adjusted geometries are checked like the proposed ones
+    return !this._adjusted || this.checkCollisions(features, invalidBefore, evt) || reject(true)
+  }
+
+  /**
+   * mark the collisions of the features
+   * @return false if `collisionMode` is "block" and a feature collides that did not before the step
+   */
+  private checkCollisions(features: Feature[], invalidBefore: Feature[], evt?: MapBrowserEvent<PointerEvent | KeyboardEvent>): boolean {
+    const collisions = this.findCollisions(features)
+    if (this._collisionMode === "block" && collisions.invalid.some((feat) => !invalidBefore.includes(feat))) {
+      // features that already collided may still move out
+      return false
+    }
+    this.setInvalid(collisions, evt)
+    return true
+  }
+
+  /**
+   * restore the features from before the drag and finish the gesture without recording history
+   */
+  private cancelTransform(evt: MapBrowserEvent<KeyboardEvent>): void {
+    const mode = this._mode
+    this.cancelDrag()
+    this.endPreview()
+    this.applySnapshots(this._selections.getArray(), this.takeSnapshots(this._prevSelections.getArray()))
+    this.discardClones()
+    this._mode = ""
+    this._transformed = false
+
+    const coordinate = this.getSelectionsCenter()
+    this.dispatchTransformEvent("transformcancel", evt, coordinate)
+    this.dispatchModeEvent(mode, "end", evt, coordinate)
+    this.dispatchTransformEvent("transformend", evt, coordinate)
+  }
+
+  /**
+   * a boolean feature property of the gesture's target wins over the option and its condition
+   */
+  private isConstrained(constraint: TransformConstraint, evt: MapBrowserEvent<PointerEvent>): boolean {
+    const featureValue: boolean | undefined = this._target?.get(constraint)
+    if (featureValue !== undefined) {
+      return featureValue
+    }
+    return this._constraints[constraint] || this._constraintConditions[constraint](evt)
+  }
+
+  /**
+   * select copies of the selected features and add them to the sources of their originals, unless a `beforeselect` listener
+   * rejects them, a feature outside the vector sources of `layers` stays selected itself
+   */
+  private cloneSelections(evt: MapBrowserEvent<PointerEvent>): void {
+    const originals = this._selections.getArray().slice()
+    const sources = originals.map((feat) => this.getSourceOf(feat))
+    const copies = originals.map((feat, i) => (sources[i] ? feat.clone() : feat))
+    if (!this.changeSelection(copies, evt)) {
+      return
+    }
+    copies.forEach((copy, i) => {
+      const source = sources[i]
+      if (source && copy !== originals[i]) {
+        source.addFeature(copy)
+        this._clones.push({ feature: copy, source, original: originals[i] })
+      }
+    })
+    const index = originals.indexOf(this._target!)
+    if (index >= 0) {
+      this._target = copies[index]
+    }
+    // the copies are the base of the gesture now
+    this.takePrevSelections()
+
+    const copied = originals.filter((feat, i) => copies[i] !== feat)
+    if (copied.length > 0) {
+      this.dispatchEvent(
+        new TransformDuplicateEvent({
+          type: "duplicate",
+          target: this,
+          features: copies.filter((copy, i) => copy !== originals[i]),
+          originals: copied,
+          mapBrowserEvent: evt,
+        }),
+      )
+    }
+  }
+
+  /**
+   * take the copies of the current gesture out of their sources and select their originals again
+   */
+  private discardClones(evt?: MapBrowserEvent<PointerEvent>): void {
+    const clones = this._clones
+    if (clones.length === 0) {
+      return
+    }
+    this._clones = []
+    clones.forEach(({ feature, source }) => source.removeFeature(feature))
+    this.changeSelection(
+      this._selections.getArray().map((feat) => clones.find((clone) => clone.feature === feat)?.original ?? feat),
+      evt,
+    )
+  }
+
+  /**
+   * `layers` and the layer of the `ImageFeature`s, which are not copied or snapped to
+   */
+  private getSelectableLayers(): Layer[] {
+    return [...this._layers, this._imageLayer]
+  }
+
+  /**
+   * move the static images to their `ImageFeature`s
+   */
+  private syncImages(): void {
+    this._imageLayer.getSource()!.forEachFeature((feat) => {
+      if (ImageFeature.isImageFeature(feat)) {
+        feat.updateLayer()
+      }
+    })
+  }
+
+  private getSourceOf(feat: Feature): VectorSource | undefined {
+    for (const layer of this._layers) {
+      const source = layer.getSource()
+      if (source instanceof VectorSource && source.hasFeature(feat)) {
+        return source
+      }
+    }
+  }
+
+  private getFeatureById(id: string | number): Feature | undefined {
+    for (const layer of this.getSelectableLayers()) {
+      const source = layer.getSource()
+      const feat = source instanceof VectorSource ? source.getFeatureById(id) : null
+      if (feat) {
+        return feat as Feature
+      }
+    }
+  }
+
+  private getPolicy(feat: Feature): TransformPolicy {
+    return resolvePolicy(feat, this._policy)
+  }
+
+  /**
+   * a mode is allowed only if no selected feature forbids it, skew and distort follow scale unless set
+   */
+  private isAllowed(mode: TransformMode): boolean {
+    if (mode === "" || mode === "pivot") {
+      return true
+    }
+    return this._selections.getArray().every((sel) => {
+      const policy = this.getPolicy(sel)
+      const allowed = policy[mode]
+      return (allowed ?? (mode === "skew" || mode === "distort" ? policy.scale : undefined)) !== false
+    })
+  }
+
+  /**
+   * translate as far as possible towards (dx, dy) without leaving any policy extent
+   */
+  private translateWithinLimits(dx: number, dy: number): void {
+    this._prevSelections.forEach((sel) => {
+      const { extent } = this.getPolicy(sel)
+      if (!extent) {
+        return
+      }
+      const [minX, minY, maxX, maxY] = sel.getGeometry()!.getExtent()
+      dx = Math.max(extent[0] - minX, Math.min(extent[2] - maxX, dx))
+      dy = Math.max(extent[1] - minY, Math.min(extent[3] - maxY, dy))
+    })
+    this.translateSelections(dx, dy)
+  }
+
+  private rotateWithinLimits(da: number, pivots: Coordinate[]): void {
+    this._prevSelections.forEach((sel) => {
+      const { maxRotation } = this.getPolicy(sel)
+      if (maxRotation === undefined) {
+        return
+      }
+      const angle = normalizeAngle(this.getAngle(sel) ?? 0)
+      da = Math.max(-maxRotation - angle, Math.min(maxRotation - angle, da))
+    })
+    this.clampToExtents((t) => this.rotateSelections(t * da, pivots))
+  }
+
+  /**
+   * limit scale factors so that no feature leaves its policy size range
+   * @param locked clamp both factors by the same amount to keep the aspect ratio
+   */
+  private clampScaleFactors(scaleX: number, scaleY: number, locked = false): [number, number] {
+    let magnitude = Math.max(Math.abs(scaleX), Math.abs(scaleY))
+    this._prevSelections.forEach((sel) => {
+      const { minWidth, maxWidth, minHeight, maxHeight } = this.getPolicy(sel)
+      const { coords } = this.calcPrevBox(sel)
+      const width = this.measureDistance(coords[1], coords[2])
+      const height = this.measureDistance(coords[0], coords[1])
+      if (locked) {
+        magnitude = clampScale(clampScale(magnitude, width, minWidth, maxWidth), height, minHeight, maxHeight)
+      } else {
+        scaleX = clampScale(scaleX, width, minWidth, maxWidth)
+        scaleY = clampScale(scaleY, height, minHeight, maxHeight)
+      }
+    })
+    return locked ? [(Math.sign(scaleX) || 1) * magnitude, (Math.sign(scaleY) || 1) * magnitude] : [scaleX, scaleY]
+  }
+
+  /**
+   * apply the whole transform, and if a feature leaves its policy extent,
+   * the largest fraction of it that keeps every feature inside
+   */
+  private clampToExtents(transform: (t: number) => void): void {
+    let t = 1
+    // a fraction is exact for transforms moving the vertices in straight lines, a rotation needs a few more
+    for (let i = 0; i < 4; i++) {
+      transform(t)
+      if (this.fitsExtents()) {
+        return
+      }
+      t *= this.calcExtentFraction()
+    }
+    transform(0)
+  }
+
+  /**
+   * fraction of the way from the snapshots in `_prevSelections` to the current features that keeps every feature
+   * inside its policy extent, the extent of features moving in straight lines stays within the one interpolated
+   * between their start and end extents
+   */
+  private calcExtentFraction(): number {
+    let fraction = 1
+    this._selections.forEach((sel, i) => {
+      const { extent } = this.getPolicy(sel)
+      const prev = this._prevSelections.item(i)
+      if (!extent || !prev) {
+        return
+      }
+      const start = prev.getGeometry()!.getExtent()
+      const end = sel.getGeometry()!.getExtent()
+      for (let side = 0; side < 4; side++) {
+        // minX and minY must not decrease below the limit, maxX and maxY not increase above it
+        const dir = side < 2 ? -1 : 1
+        if ((end[side] - extent[side]) * dir > 0) {
+          // stop a little inside so that rounding does not leave the extent
+          const margin = 1e-9 * Math.max(1, Math.abs(extent[side]))
+          const room = (extent[side] - dir * margin - start[side]) * dir
+          fraction = Math.min(fraction, Math.max(0, room / ((end[side] - start[side]) * dir)))
+        }
+      }
+    })
+    return fraction
+  }
+
+  private fitsExtents(): boolean {
+    return this._selections.getArray().every((sel) => {
+      const { extent } = this.getPolicy(sel)
+      return !extent || containsExtent(extent, sel.getGeometry()!.getExtent())
+    })
+  }
+
+  private flip(scaleX: number, scaleY: number): boolean {
+    return this.transformOnce("flip", undefined, () => {
+      const fromCenter = this._scaleAnchor !== "pivot"
+      const pivots = this.calcPivots()
+      this.scaleSelections(scaleX, scaleY, -1, fromCenter, pivots)
+      if (!this.fitsExtents()) {
+        // half a mirror is a squash, so it is all or nothing
+        this.scaleSelections(1, 1, -1, fromCenter, pivots)
+        return false
+      }
+    })
+  }
+
+  /**
+   * translate each feature from its snapshot in `_prevSelections`
+   */
+  private translateSelections(dx: number, dy: number): void {
+    this._prevSelections.forEach((sel, i) => {
+      this.applyFeatureOperation(sel, this._selections.item(i), { id: sel.getId(), translate: { dx, dy } }, i)
+    })
+    this._delta = { ...this._delta, dx, dy }
+  }
+
+  private snapCoordinate(coord: Coordinate): SnapResult | undefined {
+    if (this._snappers.length === 0) {
+      return
+    }
+    const tolerance = this._snapTolerance * (this.getMap()?.getView().getResolution() ?? 1)
+    const exclude = this._selections.getArray()
+
+    return this._snappers.reduce<SnapResult | undefined>((best, snapper) => {
+      const result = snapper.snap(coord, tolerance, exclude)
+      return result && (!best || result.distance < best.distance) ? result : best
+    }, undefined)
+  }
+
+  /**
+   * find the smallest correction that snaps any vertex of the translated features
+   */
+  private snapTranslation(dx: number, dy: number): { dx: number; dy: number; result: SnapResult } | undefined {
+    if (this._snappers.length === 0) {
+      return
+    }
+    let best: { dx: number; dy: number; result: SnapResult } | undefined
+    this._prevSelections.forEach((sel) => {
+      getGeometryPaths(sel.getGeometry()!).forEach((path) => {
+        path.forEach(([x, y]) => {
+          const moved = [x + dx, y + dy]
+          const result = this.snapCoordinate(moved)
+          if (result && (!best || result.distance < best.result.distance)) {
+            best = { dx: result.coordinate[0] - moved[0], dy: result.coordinate[1] - moved[1], result }
+          }
+        })
+      })
+    })
+    return best
+  }
+
+  private drawSnapIndicator({ coordinate }: SnapResult): void {
+    const indicator = new Feature(new Point(coordinate))
+    indicator.setStyle(
+      new Style({
+        image: new RegularShape({
+          stroke: new Stroke({ color: this._strokeColor ?? "rgba(151, 151, 151, 1)", width: this._strokeWidth }),
+          points: 4,
+          radius: 8,
+          radius2: 0,
+        }),
+      }),
+    )
+    this._snapIndicators.push(indicator)
+  }
+
+  /**
+   * rotate each feature around its own center, starting from the snapshot in `_prevSelections`
+   */
+  private rotateSelections(da: number, pivots: Coordinate[]): void {
+    const groupPlane = this.isGroup ? this.getPlane(this._prevSelections.getArray()) : undefined
+    this._prevSelections.forEach((sel, i) => {
+      const { origin } = groupPlane ?? this.getPlane([sel])
+      this.applyFeatureOperation(sel, this._selections.item(i), { id: sel.getId(), origin, rotate: { angle: da, pivot: pivots[i] } }, i)
+    })
+    this._delta = { ...this._delta, angle: da }
+  }
+
+  /**
+   * scale each feature in its rotated frame around the opposite handle or its center,
+   * or all features in the group frame, starting from the snapshot in `_prevSelections`
+   * @param pivots anchors for `scaleAnchor: "pivot"`, the handle at `oppositeIdx` is used without them
+   */
+  private scaleSelections(scaleX: number, scaleY: number, oppositeIdx: number, fromCenter: boolean, pivots?: Coordinate[]): void {
+    const groupBox = this.isGroup ? this.calcPrevBox() : undefined
+    const groupPlane = this.isGroup ? this.getPlane(this._prevSelections.getArray()) : undefined
+    this._prevSelections.forEach((sel, i) => {
+      const { angle, coords } = groupBox ?? this.calcPrevBox(sel)
+      const { origin } = groupPlane ?? this.getPlane([sel])
+      const anchor = this.calcScaleAnchor(coords, oppositeIdx, fromCenter, pivots?.[i])
+
+      // a circle in its own box keeps its box square
+      const uniform = !groupBox && sel.getGeometry() instanceof Circle ? dominantScale(scaleX, scaleY) : undefined
+      const [sx, sy] = uniform ? [uniform * (Math.sign(scaleX) || 1), uniform * (Math.sign(scaleY) || 1)] : [scaleX, scaleY]
+      const scale = { scaleX: sx, scaleY: sy, anchor, angle }
+      this.applyFeatureOperation(sel, this._selections.item(i), { id: sel.getId(), origin, scale }, i)
+    })
+    this._delta = { ...this._delta, scaleX, scaleY }
+  }
+
+  /**
+   * map the box of each feature, or of the group, onto the quadrilateral given by its corners tl, bl, br and tr
+   * relative to the box, starting from the snapshot in `_prevSelections`
+   */
+  private projectSelections(corners: Coordinate[]): void {
+    const groupBox = this.isGroup ? this.calcPrevBox() : undefined
+    const groupPlane = this.isGroup ? this.getPlane(this._prevSelections.getArray()) : undefined
+    this._prevSelections.forEach((sel, i) => {
+      const { coords } = groupBox ?? this.calcPrevBox(sel)
+      const plane = groupPlane ?? this.getPlane([sel])
+      const src = coords.slice(0, 4).map(plane.toPlane)
+      const dst = corners.map((corner) => plane.toPlane(fromBoxRelative(coords, corner)))
+      const matrix = calcHomography(src, dst)
+      if (!matrix) {
+        // a flat box has no area to map
+        return
+      }
+      this.applyFeatureOperation(sel, this._selections.item(i), { id: sel.getId(), origin: plane.origin, matrix }, i)
+    })
+  }
+
+  private calcScaleAnchor(coords: Coordinate[], oppositeIdx: number, fromCenter: boolean, pivot?: Coordinate): Coordinate {
+    if (fromCenter) {
+      // the center of the box is the midpoint of its diagonal
+      return getCenter(boundingExtent([coords[0], coords[2]]))
+    }
+    return this._scaleAnchor === "pivot" && pivot ? pivot : this.calcScaleHandleCoord(coords, oppositeIdx)
+  }
+
+  /**
+   * pivot of each selected feature, a group shares one pivot
+   */
+  private calcPivots(): Coordinate[] {
+    const features = this._selections.getArray()
+    if (this.isGroup) {
+      const { coords, center } = this.calcBox(features)
+      const pivot = this._groupPivot ? fromBoxRelative(coords, this._groupPivot) : center
+      return features.map(() => pivot)
+    }
+
+    return features.map((feat) => {
+      const relative = this._pivots.get(feat)
+      if (relative) {
+        return fromBoxRelative(this.calcBox([feat]).coords, relative)
+      }
+      return this._pivot?.(feat) ?? getCenter(feat.getGeometry()!.getExtent())
+    })
+  }
+
+  private getSelectionsCenter(): Coordinate {
+    const extent = createEmpty()
+    this._selections.forEach((sel) => extend(extent, sel.getGeometry()!.getExtent()))
+    return getCenter(extent)
+  }
+
+  private dispatchTransformEvent(
+    type: TransformEventType,
+    evt: MapBrowserEvent<PointerEvent | KeyboardEvent> | undefined,
+    coordinate: Coordinate = evt?.coordinate ?? this._startCoord,
+  ): void {
+    this.dispatchEvent(this.createTransformEvent(type, evt, coordinate))
+  }
+
+  private createTransformEvent(
+    type: TransformEventType,
+    evt: MapBrowserEvent<PointerEvent | KeyboardEvent> | undefined,
+    coordinate: Coordinate = evt?.coordinate ?? this._startCoord,
+  ): TransformEvent {
+    const features = this._selections.getArray().slice()
+    // a drag updates the live geometries in place, so listeners get copies that stay as they were
+    const listening = this.hasListener(type)
+    return new TransformEvent({
+      type,
+      target: this,
+      mapBrowserEvent: evt,
+      startCoordinate: this._startCoord,
+      coordinate,
+      features,
+      geometries: features.map((feat) => (listening ? feat.getGeometry()!.clone() : feat.getGeometry()!)),
+      mode: this._mode,
+      delta: { ...this._delta },
+      operation: type === "transformend" ? this.getOperation() : undefined,
+    })
+  }
+
+  /**
+   * the current gesture as an operation that `applyOperation` can replay,
+   * undefined once a `beforetransform` listener adjusted the geometries of its last step
+   */
+  private getOperation(): TransformOperation | undefined {
+    const features = this._operations.filter((operation) => operation)
+    if (this._mode === "" || this._mode === "pivot" || this._adjusted || features.length === 0) {
+      return
+    }
+    return { mode: this._mode, features }
+  }
+
+  /**
+   * @return true if a selected feature under the pointer entered or left vertex editing
+   */
+  private toggleVertexFeature(evt: MapBrowserEvent<PointerEvent>): boolean {
+    const feat = this.getMap()?.forEachFeatureAtPixel(
+      evt.pixel,
+      (feat, layer) =>
+        feat instanceof Feature && this._selections.getArray().includes(feat) && this._shouldGetFeature(evt, feat, layer)
+          ? feat
+          : undefined,
+      { layerFilter: (layer) => this.getSelectableLayers().includes(layer), hitTolerance: this.getHitTolerance(evt) },
+    )
+    if (!feat) {
+      return false
+    }
+    return this.setVertexFeature(feat === this._vertexFeature ? undefined : feat)
+  }
+
+  private dispatchModeEvent(
+    mode: TransformMode,
+    phase: "start" | "ing" | "end",
+    evt: MapBrowserEvent<PointerEvent | KeyboardEvent> | undefined,
+    coordinate: Coordinate = evt?.coordinate ?? this._startCoord,
+  ): void {
+    if (mode !== "") {
+      this.dispatchTransformEvent(Transform.modeEvents[mode][phase], evt, coordinate)
+    }
+  }
+
+  /**
+   * replace the selection by `after`, which keeps the order of the features it keeps, unless a `beforeselect` listener
+   * rejects the change, and announce it in one `selectionchange` event
+   * @return false if the change was rejected
+   */
+  private changeSelection(after: Feature[], evt?: MapBrowserEvent<PointerEvent>): boolean {
+    const before = this._selections.getArray().slice()
+    const selected = after.filter((feat) => !before.includes(feat))
+    const deselected = before.filter((feat) => !after.includes(feat))
+    if (selected.length === 0 && deselected.length === 0) {
+      return true
+    }
+    if (!this.allowSelectionChange(selected, deselected, evt)) {
+      return false
+    }
+    this._changingSelection = true
+    try {
+      deselected.forEach((feat) => this._selections.remove(feat))
+      after.forEach((feat, i) => {
+        if (selected.includes(feat)) {
+          this._selections.insertAt(i, feat)
+        }
+      })
+    } finally {
+      this._changingSelection = false
+    }
+    this.announceSelectionChange(selected, deselected, evt)
+    return true
+  }
+
+  /**
+   * let `beforeselect` listeners reject a change of the selection
+   */
+  private allowSelectionChange(selected: Feature[], deselected: Feature[], evt?: MapBrowserEvent<PointerEvent>): boolean {
+    const beforeEvent = new TransformSelectEvent({ type: "beforeselect", target: this, selected, deselected, mapBrowserEvent: evt })
+    this.dispatchEvent(beforeEvent)
+    return !beforeEvent.defaultPrevented
+  }
+
+  private announceSelectionChange(selected: Feature[], deselected: Feature[], evt?: MapBrowserEvent<PointerEvent>): void {
+    if (deselected.some((feat) => this._invalid.includes(feat))) {
+      // only the selection is marked
+      this.setInvalid(this.findCollisions(this._invalid.filter((feat) => !deselected.includes(feat))), evt)
+    }
+    if (this._vertexFeature && !this._selections.getArray().includes(this._vertexFeature)) {
+      this._vertexFeature = undefined
+    }
+    this._groupPivot = undefined
+    if (this._fitAngle) {
+      selected.forEach((feat) => this.fitAngle(feat))
+    }
+    this.watchFeatures()
+    this.drawHandles()
+    this.dispatchEvent(new TransformSelectEvent({ type: "selectionchange", target: this, selected, deselected, mapBrowserEvent: evt }))
+  }
+
+  private startBoxSelection(evt: MapBrowserEvent<PointerEvent>): void {
+    const feature = new Feature(this.calcPixelBox(evt.pixel, evt.pixel))
+    feature.setStyle(
+      new Style({
+        stroke: new Stroke({ color: this._strokeColor ?? "rgba(151, 151, 151, 1)", width: this._strokeWidth, lineDash: [4, 4] }),
+        fill: new Fill({ color: "rgba(151, 151, 151, 0.1)" }),
+      }),
+    )
+    this._handleLayer.getSource()!.addFeature(feature)
+    this._boxSelection = {
+      startPixel: evt.pixel,
+      operation: this._subtractCondition(evt) ? "subtract" : this._addCondition(evt) ? "add" : "replace",
+      feature,
+    }
+  }
+
+  private finishBoxSelection(evt: MapBrowserEvent<PointerEvent>): void {
+    const { startPixel, operation, feature } = this._boxSelection!
+    this._boxSelection = undefined
+    this._handleLayer.getSource()!.removeFeature(feature)
+
+    const map = this.getMap()
+    if (!map) {
+      return
+    }
+    // test the features in the frame of the screen, which the view rotation may turn against the map
+    const [sx, sy] = startPixel
+    const origin = map.getCoordinateFromPixel(startPixel)
+    const right = map.getCoordinateFromPixel([sx + 1, sy])
+    const frameAngle = -Math.atan2(right[1] - origin[1], right[0] - origin[0])
+    const [ex, ey] = evt.pixel
+    const corners = [startPixel, [sx, ey], evt.pixel, [ex, sy]].map((pixel) => map.getCoordinateFromPixel(pixel))
+    const frameExtent = boundingExtent(corners.map((corner) => this.rotatePoint(corner, origin, frameAngle)))
+
+    const features: Feature[] = []
+    this.getSelectableLayers().forEach((layer) => {
+      const source = layer.getSource()
+      if (!(source instanceof VectorSource)) {
+        return
+      }
+      source.forEachFeatureIntersectingExtent(boundingExtent(corners), (feat: Feature) => {
+        const geom = feat.getGeometry()!.clone()
+        geom.rotate(frameAngle, origin)
+        if (geom.intersectsExtent(frameExtent) && this._shouldGetFeature(evt, feat, layer)) {
+          features.push(feat)
+        }
+      })
+    })
+
+    const selection = this._selections.getArray()
+    this.changeSelection(
+      operation === "subtract"
+        ? selection.filter((feat) => !features.includes(feat))
+        : [...selection, ...features.filter((feat) => !selection.includes(feat))],
+      evt,
+    )
+  }
+
+  /**
+   * the screen-aligned rectangle between two pixels in map coordinates
+   */
+  private calcPixelBox(start: Pixel, end: Pixel): Polygon {
+    const map = this.getMap()!
+    const corners = [start, [start[0], end[1]], end, [end[0], start[1]], start].map((pixel) => map.getCoordinateFromPixel(pixel))
+    return new Polygon([corners])
+  }
+
+  private dispatchHistoryEvent(action: TransformHistoryAction): void {
+    this.dispatchEvent(
+      new TransformHistoryEvent({
+        type: "historychange",
+        target: this,
+        action,
+        canUndo: this._history.canUndo,
+        canRedo: this._history.canRedo,
+      }),
+    )
+  }
+
+  private recordHistory(): void {
+    if (this._history.depth === 0) {
+      return
+    }
+    const features = this._selections.getArray().slice()
+    this._history.push({
+      features,
+      before: this.takeSnapshots(this._prevSelections.getArray()),
+      after: this.takeSnapshots(features),
+      added: this._clones.length > 0 ? this._clones.slice() : undefined,
+    })
+    this.dispatchHistoryEvent("push")
+  }
+
+  /**
+   * copy the selection as the base of the next gesture
+   */
+  private takePrevSelections(): void {
+    this._prevSelections.clear()
+    this._prevSelections.extend(
+      this._selections.getArray().map((feat) => {
+        const prev = feat.clone()
+        // `clone` drops the id, which the operations of the gesture take from the copy
+        prev.setId(feat.getId())
+        const fitted = this._fittedAngles.get(feat)
+        if (fitted !== undefined) {
+          this._fittedAngles.set(prev, fitted)
+        }
+        return prev
+      }),
+    )
+    this._prevGroupBox = undefined
+  }
+
+  /**
+   * replace the styles of the selected features by an outline, except for icons and texts, which are their features' shape
+   */
+  private startPreview(): void {
+    if (!this._dragPreview || this._previewStyles) {
+      return
+    }
+    const stroke = new Stroke({ color: this._highlightColor, width: this._strokeWidth })
+    const outline = new Style({ stroke, image: new CircleStyle({ stroke, radius: 6 }) })
+    this._previewStyles = new Map()
+    this._updating = true
+    this._selections.forEach((sel) => {
+      if (getSymbolStyles(sel).length === 0) {
+        this._previewStyles!.set(sel, sel.getStyle())
+        sel.setStyle(outline)
+      }
+    })
     this._updating = false
   }
 
-  protected handleUpEvent(evt: MapBrowserEvent<MouseEvent>): boolean {
-    if (this._mode === "scale" && this._headInverted) {
-      this._selections.forEach((sel) => {
-        const geom = sel.getGeometry()!
-        const angle: number | undefined = sel.get("angle")
-        if (angle !== undefined) {
-          geom.rotate(Math.PI, getCenter(geom.getExtent()))
-          sel.set("angle", (angle + Math.PI) % (2 * Math.PI))
-        }
-      })
-    }
-
-    this.dispatchTransformEvent("mouseup", evt)
-
-    if (this._transformed) {
-      switch (this._mode) {
-        case "translate":
-          this.dispatchTransformEvent("translateend", evt)
-          break
-        case "rotate":
-          this.dispatchTransformEvent("rotateend", evt)
-          break
-        case "scale":
-          this.dispatchTransformEvent("scaleend", evt)
-          break
-      }
-      this.dispatchTransformEvent("transformend", evt)
+  private endPreview(): void {
+    if (!this._previewStyles) {
+      return
     }
+    this._updating = true
+    this._previewStyles.forEach((style, feat) => feat.setStyle(style))
+    this._updating = false
+    this._previewStyles = undefined
+  }
 
-    this.drawHandles()
-    this._mode = ""
-    this._transformed = false
-
-    return false
+  private takeSnapshots(features: Feature[]): TransformSnapshot[] {
+    return features.map((feat) => TransformHistory.snapshot(feat, this._angleProperty, this._flipProperty))
   }
 
-  handleEvent(e: MapBrowserEvent<MouseEvent>): boolean {
-    switch (e.type) {
-      case "click":
-        this.dispatchTransformEvent("click", e)
-        break
-      case "singleclick":
-        this.dispatchTransformEvent("singleclick", e)
-        break
-      case "dblclick":
-        this.dispatchTransformEvent("dblclick", e)
-        break
-      case "pointerup":
-        this.dispatchTransformEvent("pointerup", e)
-        break
-      case "pointerdown":
-        this.dispatchTransformEvent("pointerdown", e)
-        break
-      case "pointermove":
-        this.dispatchTransformEvent("pointermove", e)
-        break
+  private applySnapshots(features: Feature[], snapshots: TransformSnapshot[]): void {
+    this._updating = true
+    this.restoreSnapshots(features, snapshots)
+    this._updating = false
+    if (this._collisionMode === "mark") {
+      this.setInvalid(this.findCollisions(features))
     }
-    return super.handleEvent(e)
+    this.syncImages()
+    this.drawHandles()
   }
 
-  private dispatchTransformEvent(type: TransformEventType, evt: MapBrowserEvent<MouseEvent>): void {
-    this.dispatchEvent(
-      new TransformEvent({
-        type,
-        target: this,
-        mapBrowserEvent: evt,
-        startCoordinate: this._startCoord,
-        coordinate: evt.coordinate,
-      }),
-    )
+  private restoreSnapshots(features: Feature[], snapshots: TransformSnapshot[]): void {
+    features.forEach((feat, i) => {
+      const { geometry, angle, flipped, style } = snapshots[i]
+      feat.setGeometry(geometry.clone())
+      if (angle !== feat.get(this._angleProperty)) {
+        feat.set(this._angleProperty, angle)
+      }
+      if (flipped !== feat.get(this._flipProperty)) {
+        feat.set(this._flipProperty, flipped)
+      }
+      if (style) {
+        feat.setStyle(style)
+      }
+    })
   }
 
-  private selectFeature(evt: MapBrowserEvent<MouseEvent>): HandleFeature | Feature | undefined {
+  /**
+   * the handle or selectable feature under the pointer
+   */
+  private findFeature(evt: MapBrowserEvent<PointerEvent>): HandleFeature | Feature | undefined {
     return this.getMap()?.forEachFeatureAtPixel(
       evt.pixel,
       (feat, layer) => {
@@ -383,51 +2416,140 @@ export default class Transform extends PointerInteraction {
           return
         }
         if (layer === this._handleLayer) {
-          return feat
+          // skip transient features like the snap indicator
+          return HandleFeature.isHandleFeature(feat) ? feat : undefined
         }
-
-        const i = this._selections.getArray().indexOf(feat)
-        if (this._addCondition(evt)) {
-          if (i === -1) {
-            this._selections.push(feat)
-          } else {
-            this._selections.removeAt(i)
-          }
-        } else {
-          if (i === -1) {
-            this._selections.clear()
-            this._selections.push(feat)
-          }
-        }
-
         return feat
       },
       {
         layerFilter: (layer): boolean => {
-          const index = [this._handleLayer, ...this._layers].indexOf(layer) ?? -1
+          const index = [this._handleLayer, ...this.getSelectableLayers()].indexOf(layer) ?? -1
           return index >= 0
         },
+        hitTolerance: this.getHitTolerance(evt),
       },
     )
   }
 
   private drawHandles(): void {
-    this._handleLayer.getSource()!.clear()
+    const handles: Feature[] = []
+    const groupBox = this.isGroup ? this.calcBox(this._selections.getArray()) : undefined
+    const translatable = this.isAllowed("translate")
     this._selections.getArray().forEach((sel, i) => {
-      if (i === 0) {
-        const handles = this.genHandles(sel)
-        this._handleLayer.getSource()!.addFeatures(handles)
+      if (sel === this._vertexFeature) {
+        handles.push(...this.genVertexHandles(sel))
+      } else if (i === 0) {
+        handles.push(...this.genHandles(sel, groupBox))
+      }
+      if (translatable) {
+        handles.push(this.genTranslateHandle(sel))
+      }
+    })
+
+    this.showHandles(handles)
+    this.drawHoverHighlight()
+  }
+
+  /**
+   * replace the features of the handle layer by `handles`, keeping the reused ones in the layer and the hover on them
+   */
+  private showHandles(handles: Feature[]): void {
+    const source = this._handleLayer.getSource()!
+    const kept = new Set(handles)
+    source.getFeatures().forEach((feat) => {
+      if (!kept.has(feat)) {
+        source.removeFeature(feat)
+      }
+    })
+    if (this._hoverHandle && !kept.has(this._hoverHandle)) {
+      this._hoverHandle = undefined
+    }
+    this.addHandles(handles)
+  }
+
+  /**
+   * wrap the built-in style of each handle in a style function that follows hover and drag state
+   */
+  private addHandles(handles: Feature[]): void {
+    this.setHandleAngles(handles)
+    handles.forEach((handle) => {
+      const baseStyle = handle.getStyle()
+      if (!HandleFeature.isHandleFeature(handle) || typeof baseStyle === "function") {
+        // a reused handle is wrapped already
+        return
+      }
+      handle.setStyle(() => this.styleHandle(handle, baseStyle as Style | Style[]))
+    })
+    const source = this._handleLayer.getSource()!
+    source.addFeatures(handles.filter((handle) => !source.hasFeature(handle)))
+  }
+
+  /**
+   * store the angle of each handle's box for `handleStyle`, so that rendering does not compute it
+   */
+  private setHandleAngles(handles: Feature[]): void {
+    if (!this._handleStyle) {
+      return
+    }
+    const groupAngle = this.isGroup ? this.calcBox(this._selections.getArray()).angle : undefined
+    const angles = new Map<Feature, number>()
+    handles.filter(HandleFeature.isHandleFeature).forEach((handle) => {
+      if (!angles.has(handle.body)) {
+        angles.set(handle.body, groupAngle ?? this.calcBox([handle.body]).angle)
       }
-      const handle = this.genTranslateHandle(sel)
-      this._handleLayer.getSource()!.addFeature(handle)
+      handle.angle = angles.get(handle.body)!
     })
   }
 
+  private styleHandle(handle: HandleFeature, baseStyle: Style | Style[]): Style | Style[] {
+    const hover = handle === this._hoverHandle
+    // skew and distort are dragged by the scale handles
+    const mode = this._mode === "skew" || this._mode === "distort" ? "scale" : this._mode
+    const active = mode !== "" && handle.mode === mode && handle.index === this._activeIndex
+    if (this._handleStyle) {
+      const invalid = this.isInvalid(handle.body)
+      return this._handleStyle(handle, { mode: handle.mode, index: handle.index, hover, active, angle: handle.angle, invalid })
+    }
+    if (!hover && !active) {
+      return baseStyle
+    }
+
+    const highlight = this.createHighlightStyle(handle.getGeometry()!)
+    return [highlight, ...(Array.isArray(baseStyle) ? baseStyle : [baseStyle])]
+  }
+
+  private createHighlightStyle(geom: Geometry): Style {
+    return geom instanceof Point
+      ? new Style({ image: new RegularShape({ fill: new Fill({ color: this._highlightColor }), radius: 12, points: 15 }) })
+      : new Style({ stroke: new Stroke({ color: this._highlightColor, width: this._strokeWidth + 4 }) })
+  }
+
+  /**
+   * the translate handle of the feature, moved in place if its look did not change since it was last drawn
+   */
   private genTranslateHandle(feat: Feature): Feature {
     const geom = feat.getGeometry()!
-    const strokeColor = this._strokeColor ?? this.extractStrokeColor(feat) ?? "rgba(151, 151, 151, 1)"
+    const strokeColor = this.isInvalid(feat) ? this._invalidColor : this.getStrokeColor(feat)
     const strokeWidth = this._strokeWidth
 
+    const cached = this._translateHandles.get(feat)
+    const cachedGeom = cached?.handle.getGeometry()
+    if (cached?.strokeColor === strokeColor && cachedGeom instanceof Point === geom instanceof Point) {
+      if (cachedGeom instanceof Point) {
+        cachedGeom.setCoordinates((geom as Point).getCoordinates())
+      } else {
+        ;(cachedGeom as Polygon).setCoordinates(fromExtent(geom.getExtent()).getCoordinates())
+      }
+      return cached.handle
+    }
+    const handle = this.buildTranslateHandle(feat, strokeColor, strokeWidth)
+    this._translateHandles.set(feat, { handle, strokeColor })
+    return handle
+  }
+
+  private buildTranslateHandle(feat: Feature, strokeColor: Color | ColorLike, strokeWidth: number): HandleFeature {
+    const geom = feat.getGeometry()!
+
     if (geom instanceof Point) {
       const coord = geom.getCoordinates()
       const pointHandle = new HandleFeature({ geometry: new Point(coord), body: feat, mode: "translate" })
@@ -459,79 +2581,150 @@ export default class Transform extends PointerInteraction {
     return borderHandle
   }
 
-  private genHandles(feat: Feature): Feature[] {
+  private genHandles(feat: Feature, box = this.calcBox([feat])): Feature[] {
     const handles: Feature<Geometry>[] = []
-    const strokeColor = this._strokeColor ?? this.extractStrokeColor(feat) ?? "rgba(151, 151, 151, 1)"
+    const strokeColor = this.getStrokeColor(feat)
     const stroke = new Stroke({ color: strokeColor, width: this._strokeWidth })
     const fill = new Fill({ color: "white" })
     const geom = feat.getGeometry()!
 
-    if (geom instanceof Point) {
+    if (geom instanceof Point && !this.isGroup && getSymbolStyles(feat).length === 0) {
       return handles
     }
 
-    const angle = feat.get("angle") ?? 0
-    const normalGeo = geom.clone()
-    const normalCenter = getCenter(normalGeo.getExtent())
-    normalGeo.rotate(-angle, normalCenter)
-    const normalExt = normalGeo.getExtent()
-    const polygon = fromExtent(normalExt)
-    polygon.setCoordinates([rearrangeCoords(polygon.getCoordinates()[0])])
-    polygon.rotate(angle, normalCenter)
-    const coords = polygon.getCoordinates()[0]
+    const { angle, coords } = box
+
+    if (this.isGroup) {
+      const outline = new HandleFeature({ geometry: new Polygon([coords]), body: feat, mode: "translate" })
+      outline.setStyle(new Style({ stroke: new Stroke({ color: strokeColor, width: this._strokeWidth, lineDash: [4, 8] }) }))
+      handles.push(outline)
+    }
 
     // Generate rotate handle
-    const headCoord = this.calcScaleHandleCoord(coords, 7)
-    const rotateHandle = new HandleFeature({ geometry: new Point(headCoord), body: feat, mode: "rotate" })
-    const style = [
-      new Style({
-        image: new RegularShape({
-          stroke,
-          fill,
-          radius: 16,
-          points: 2,
-          displacement: [0, 16],
-          rotation: -angle,
-          rotateWithView: true,
+    if (this.isAllowed("rotate")) {
+      const headCoord = this.calcScaleHandleCoord(coords, 7)
+      const rotateHandle = new HandleFeature({ geometry: new Point(headCoord), body: feat, mode: "rotate" })
+      const style = [
+        new Style({
+          image: new RegularShape({
+            stroke,
+            fill,
+            radius: 16,
+            points: 2,
+            displacement: [0, 16],
+            rotation: -angle,
+            rotateWithView: true,
+          }),
         }),
-      }),
-      new Style({
-        image: new RegularShape({
-          stroke,
-          fill,
-          radius: 6,
-          points: 15,
-          displacement: [0, 32],
-          rotation: -angle,
-          rotateWithView: true,
+        new Style({
+          image: new RegularShape({
+            stroke,
+            fill,
+            radius: 6,
+            points: 15,
+            displacement: [0, 32],
+            rotation: -angle,
+            rotateWithView: true,
+          }),
         }),
-      }),
-    ]
-    rotateHandle.setStyle(style)
-    handles.push(rotateHandle)
+      ]
+      rotateHandle.setStyle(style)
+      handles.push(rotateHandle)
+    }
+
+    // Generate pivot handle
+    if (this.isAllowed("rotate")) {
+      handles.push(this.genPivotHandle(feat, this.calcPivots()[0]))
+    }
 
-    // Generate scale handles
+    // Generate scale handles, the edge ones also dragged to skew and the corner ones to distort
+    const scalable = this.isAllowed("scale")
+    const skewable = this.isAllowed("skew")
+    const distortable = this.isAllowed("distort")
     for (let i = 0; i < Transform.scaleHandlesLength; i++) {
-      const coord = this.calcScaleHandleCoord(coords, i)
-      const scaleHandle = new HandleFeature({ geometry: new Point(coord), body: feat, mode: "scale", index: i })
-      const style = new Style({
-        image: new RegularShape({
-          stroke,
-          fill,
-          points: 4,
-          radius: 8,
-          angle: Math.PI / 4,
-          rotation: -angle,
-          rotateWithView: true,
-        }),
-      })
-      scaleHandle.setStyle(style)
-      handles.push(scaleHandle)
+      if (scalable || (i % 2 === 1 ? skewable : distortable)) {
+        const coord = this.calcScaleHandleCoord(coords, i)
+        const scaleHandle = new HandleFeature({ geometry: new Point(coord), body: feat, mode: "scale", index: i })
+        const style = new Style({
+          image: new RegularShape({
+            stroke,
+            fill,
+            points: 4,
+            radius: 8,
+            angle: Math.PI / 4,
+            rotation: -angle,
+            rotateWithView: true,
+          }),
+        })
+        scaleHandle.setStyle(style)
+        handles.push(scaleHandle)
+      }
     }
 
     return handles
   }
 
+  private genPivotHandle(feat: Feature, coord: Coordinate): Feature {
+    const strokeColor = this.getStrokeColor(feat)
+    const stroke = new Stroke({ color: strokeColor, width: this._strokeWidth })
+    const pivotHandle = new HandleFeature({ geometry: new Point(coord), body: feat, mode: "pivot" })
+    pivotHandle.setStyle([
+      new Style({ image: new RegularShape({ stroke, fill: new Fill({ color: "white" }), radius: 7, points: 15 }) }),
+      new Style({ image: new RegularShape({ stroke, points: 4, radius: 7, radius2: 0 }) }),
+    ])
+    return pivotHandle
+  }
+
+  private genVertexHandles(feat: Feature): Feature[] {
+    const handles: Feature<Geometry>[] = []
+    const strokeColor = this.getStrokeColor(feat)
+    const stroke = new Stroke({ color: strokeColor, width: this._strokeWidth })
+    const vertexStyle = new Style({ image: new RegularShape({ stroke, fill: new Fill({ color: "white" }), radius: 6, points: 15 }) })
+    const midpointStyle = new Style({
+      image: new RegularShape({ stroke, fill: new Fill({ color: "rgba(255, 255, 255, 0.6)" }), radius: 4, points: 15 }),
+    })
+
+    getVertexPaths(feat.getGeometry() as VertexGeometry).forEach(({ prefix, coords, closed }) => {
+      // the closing coordinate of a ring shares the handle of the first one
+      const length = closed ? coords.length - 1 : coords.length
+      for (let i = 0; i < length; i++) {
+        const vertexHandle = new HandleFeature({ geometry: new Point(coords[i]), body: feat, mode: "vertex", index: i, path: prefix })
+        vertexHandle.setStyle(vertexStyle)
+        handles.push(vertexHandle)
+
+        if (i > 0 || closed) {
+          const prev = coords[i === 0 ? length - 1 : i - 1]
+          const midpoint = getCenter(boundingExtent([prev, coords[i]]))
+          const midpointHandle = new HandleFeature({
+            geometry: new Point(midpoint),
+            body: feat,
+            mode: "vertex",
+            index: i === 0 ? length : i,
+            path: prefix,
+            midpoint: true,
+          })
+          midpointHandle.setStyle(midpointStyle)
+          handles.push(midpointHandle)
+        }
+      }
+    })
+
+    return handles
+  }
+
+  /**
+   * `strokeColor`, or the stroke color of the feature's style, extracted again only when the style is replaced
+   */
+  private getStrokeColor(feat: Feature): Color | ColorLike {
+    const style = feat.getStyle()
+    let cached = this._strokeColors.get(feat)
+    if (!cached || cached.style !== style) {
+      cached = { style, color: this.extractStrokeColor(feat) }
+      this._strokeColors.set(feat, cached)
+    }
+    return this._strokeColor ?? cached.color ?? "rgba(151, 151, 151, 1)"
+  }
+
   private extractStrokeColor = (feat: Feature): Color | ColorLike | undefined => {
     let color
     const styleLike = feat.getStyle()
@@ -556,6 +2749,56 @@ export default class Transform extends PointerInteraction {
     return color
   }
 
+  /**
+   * box around the features rotated by their common angle, or axis-aligned if their angles differ,
+   * a rectangle on the ground if `geodesic`
+   * @return coords in the order of `rearrangeCoords`
+   */
+  private calcBox(features: Feature[]): TransformBox {
+    const angles = features.map((feat) => this.getAngle(feat) ?? 0)
+    const angle = angles.every((a) => Math.abs(normalizeAngle(a - angles[0])) < 1e-9) ? angles[0] : 0
+
+    const plane = this.getPlane(features)
+    const geometries = features.map((feat) => {
+      const geom = this.getFootprint(feat)
+      geom.applyTransform(plane.forward)
+      return geom
+    })
+
+    const extent = createEmpty()
+    geometries.forEach((geom) => extend(extent, geom.getExtent()))
+    const normalCenter = getCenter(extent)
+    const normalExt = createEmpty()
+    geometries.forEach((geom) => {
+      geom.rotate(-angle, normalCenter)
+      extend(normalExt, geom.getExtent())
+    })
+
+    const polygon = fromExtent(normalExt)
+    polygon.setCoordinates([rearrangeCoords(polygon.getCoordinates()[0])])
+    polygon.rotate(angle, normalCenter)
+    polygon.applyTransform(plane.inverse)
+    const coords = polygon.getCoordinates()[0]
+    // the center of the box is the midpoint of its diagonal
+    return { coords, angle, center: getCenter(boundingExtent([coords[0], coords[2]])) }
+  }
+
+  /**
+   * box of a snapshot in `_prevSelections`, or of all of them, kept until the snapshots are taken again
+   */
+  private calcPrevBox(sel?: Feature): TransformBox {
+    if (!sel) {
+      this._prevGroupBox ??= this.calcBox(this._prevSelections.getArray())
+      return this._prevGroupBox
+    }
+    let box = this._prevBoxes.get(sel)
+    if (!box) {
+      box = this.calcBox([sel])
+      this._prevBoxes.set(sel, box)
+    }
+    return box
+  }
+
   /**
    * @param coords
    * @param handleIdx in 0 ~ 7
@@ -589,6 +2832,278 @@ export default class Transform extends PointerInteraction {
     }
   }
 
+  /**
+   * the feature's `angleProperty`, or else the orientation `fitAngle` found for it
+   */
+  private getAngle(feat: Feature): number | undefined {
+    return feat.get(this._angleProperty) ?? this._fittedAngles.get(feat)
+  }
+
+  /**
+   * orient a feature without an orientation like its minimum-area bounding rectangle
+   */
+  private fitAngle(feat: Feature): void {
+    const geom = feat.getGeometry()
+    if (!geom || feat.get(this._angleProperty) !== undefined) {
+      return
+    }
+    const [symbol] = getSymbolStyles(feat)
+    if (symbol) {
+      // style rotations turn clockwise
+      const rotation = symbol.getImage() instanceof Icon ? symbol.getImage()!.getRotation() : symbol.getText()!.getRotation()
+      this._fittedAngles.set(feat, -(rotation ?? 0))
+      return
+    }
+    const plane = this.getPlane([feat])
+    const coords = getGeometryPaths(geom).reduce((all, path) => all.concat(path.map(plane.toPlane)), [] as Coordinate[])
+    this._fittedAngles.set(feat, calcMinAreaAngle(coords))
+  }
+
+  /**
+   * a copy of the feature's geometry, or the rotated outline of the icon or text of a point at the current resolution
+   */
+  private getFootprint(feat: Feature): Geometry {
+    const geom = feat.getGeometry()!
+    const resolution = this.getMap()?.getView().getResolution()
+    const symbols = getSymbolStyles(feat)
+    if (symbols.length === 0 || !resolution) {
+      return geom.clone()
+    }
+    const [width, height] = symbols.map(getSymbolSize).reduce(([w, h], [sw, sh]) => [Math.max(w, sw), Math.max(h, sh)], [0, 0])
+    const [x, y] = (geom as Point).getCoordinates()
+    const halfWidth = (width * resolution) / 2
+    const halfHeight = (height * resolution) / 2
+    const footprint = fromExtent([x - halfWidth, y - halfHeight, x + halfWidth, y + halfHeight])
+    footprint.rotate(this.getAngle(feat) ?? 0, [x, y])
+    return footprint
+  }
+
+  private recordVertexOperation(edit: VertexEdit): void {
+    const { path, index } = this._vertexSelection
+    const i = this._selections.getArray().indexOf(this._target!)
+    if (i >= 0) {
+      this._operations[i] = { id: this._target!.getId(), vertex: { path, index, edit } }
+    }
+  }
+
+  /**
+   * set a feature to `prev` changed by the operation, and keep the operation for `transformend` at `index`
+   * of the gesture's features
+   */
+  private applyFeatureOperation(prev: Feature, feat: Feature, operation: FeatureOperation, index = -1): void {
+    const { origin, matrix, scale, rotate, translate, vertex } = operation
+    const projection = this.getMap()?.getView().getProjection()
+    const plane = origin && projection ? createTangentPlane(origin, projection) : mapPlane
+    const angle = this.getAngle(prev)
+    const prevGeom = prev.getGeometry()!
+    const liveGeom = feat.getGeometry()
+    const inPlace = plane === mapPlane && !vertex && !!liveGeom && this.hasSameCoordinates(prevGeom, liveGeom)
+    const geom = inPlace ? liveGeom : prevGeom.clone()
+
+    if (inPlace) {
+      // one matrix from the snapshot's coordinates into the live ones, without a copy per step
+      const transform = createHomographyTransform(this.calcOperationMatrix(operation))
+      const source = prevGeom as SimpleGeometry
+      transform(source.getFlatCoordinates(), (geom as SimpleGeometry).getFlatCoordinates(), source.getStride())
+      geom.changed()
+    } else if (matrix || scale || rotate) {
+      geom.applyTransform(plane.forward)
+      if (matrix) {
+        geom.applyTransform(createHomographyTransform(matrix))
+      }
+      if (scale) {
+        const anchor = plane.toPlane(scale.anchor)
+        geom.rotate(-scale.angle, anchor)
+        scaleGeometry(geom, scale.scaleX, scale.scaleY, anchor)
+        geom.rotate(scale.angle, anchor)
+      }
+      if (rotate) {
+        geom.rotate(rotate.angle, plane.toPlane(rotate.pivot))
+      }
+      geom.applyTransform(plane.inverse)
+    }
+    if (translate && !inPlace) {
+      // the matrix of an in-place update includes it
+      geom.translate(translate.dx, translate.dy)
+    }
+    if (vertex && isVertexGeometry(geom)) {
+      editVertex(geom, vertex.path, vertex.index, vertex.edit)
+    }
+
+    // a mirror is kept as one across the box's vertical axis, a mirrored y axis turns the box half around
+    const [scaleX, scaleY] = [scale?.scaleX ?? 1, scale?.scaleY ?? 1]
+    const mirrored = scaleX < 0 !== scaleY < 0
+    const prevAngle = angle ?? 0
+    let nextAngle = prevAngle
+    if (mirrored) {
+      nextAngle = 2 * scale!.angle - prevAngle + (scaleY < 0 ? Math.PI : 0)
+    } else if (scaleX < 0) {
+      nextAngle = prevAngle + Math.PI
+    }
+    nextAngle += rotate?.angle ?? 0
+    // a fitted angle is only written once it changes, and unset again when a retry turns the feature back
+    const angleValue = prev.get(this._angleProperty) !== undefined || nextAngle !== prevAngle ? nextAngle % (2 * Math.PI) : undefined
+    if (angleValue === undefined) {
+      if (feat.get(this._angleProperty) !== undefined) {
+        feat.unset(this._angleProperty)
+      }
+    } else if (feat.get(this._angleProperty) !== angleValue) {
+      feat.set(this._angleProperty, angleValue)
+    }
+    const flipped: boolean | undefined = prev.get(this._flipProperty)
+    const nextFlipped = mirrored ? !flipped : flipped
+    if (feat.get(this._flipProperty) !== nextFlipped) {
+      feat.set(this._flipProperty, nextFlipped)
+    }
+    this.transformSymbol(prev, feat, nextAngle - prevAngle, mirrored ? -Math.abs(scaleX) : Math.abs(scaleX), Math.abs(scaleY))
+    if (!inPlace) {
+      feat.setGeometry(geom)
+    }
+    if (index >= 0) {
+      this._operations[index] = operation
+    }
+  }
+
+  /**
+   * whether `geom` has the flat coordinates of `prev`'s shape, so an affine or projective map can write into them,
+   * circles keep their radius uniform and are left to `scaleGeometry`
+   */
+  private hasSameCoordinates(prev: Geometry, geom: Geometry): boolean {
+    return (
+      prev instanceof SimpleGeometry &&
+      geom instanceof SimpleGeometry &&
+      !(prev instanceof Circle) &&
+      prev.getType() === geom.getType() &&
+      prev.getLayout() === geom.getLayout() &&
+      prev.getFlatCoordinates().length === geom.getFlatCoordinates().length
+    )
+  }
+
+  /**
+   * the matrix, scale, rotate and translate of an operation in map coordinates as one matrix
+   */
+  private calcOperationMatrix({ matrix, scale, rotate, translate }: FeatureOperation): number[] {
+    let result = matrix ?? [1, 0, 0, 0, 1, 0, 0, 0, 1]
+    if (scale) {
+      result = multiplyMatrices(createScaleMatrix(scale.scaleX, scale.scaleY, scale.anchor, scale.angle), result)
+    }
+    if (rotate) {
+      result = multiplyMatrices(createRotationMatrix(rotate.angle, rotate.pivot), result)
+    }
+    if (translate) {
+      result = multiplyMatrices([1, 0, translate.dx, 0, 1, translate.dy, 0, 0, 1], result)
+    }
+    return result
+  }
+
+  /**
+   * rotate and scale the icons and texts of a point like its box, starting from the styles of `prev`,
+   * the styles are replaced by copies so the snapshot keeps the old ones
+   */
+  private transformSymbol(prev: Feature, feat: Feature, da: number, scaleX: number, scaleY: number): void {
+    const symbols = getSymbolStyles(prev)
+    if (symbols.length === 0) {
+      return
+    }
+    const style = prev.getStyle() as Style | Style[]
+    const styles = (Array.isArray(style) ? style : [style]).map((s) => {
+      if (!symbols.includes(s)) {
+        return s
+      }
+      const copy = s.clone()
+      const image = copy.getImage()
+      ;[image instanceof Icon ? image : undefined, copy.getText()].forEach((symbol) => {
+        if (!symbol) {
+          return
+        }
+        const [sx, sy] = symbol.getScaleArray()
+        symbol.setRotation((symbol.getRotation() ?? 0) - da)
+        symbol.setScale([sx * scaleX, sy * scaleY])
+      })
+      return copy
+    })
+    feat.setStyle(styles)
+  }
+
+  /**
+   * features that overlap an obstacle or leave the boundary, and the obstacles they overlap
+   */
+  private findCollisions(features: Feature[]): { invalid: Feature[]; obstacles: Feature[] } {
+    const invalid: Feature[] = []
+    const obstacles: Feature[] = []
+    if (!this._preventOverlap && !this._boundary) {
+      return { invalid, obstacles }
+    }
+    const sources = this._obstacles
+      ? [this._obstacles]
+      : this._layers.map((layer) => layer.getSource()).filter((source): source is VectorSource => source instanceof VectorSource)
+
+    features.forEach((feat) => {
+      const geom = feat.getGeometry()!
+      let collides = !!this._boundary && !geometryWithin(geom, this._boundary)
+      if (this._preventOverlap) {
+        sources.forEach((source) => {
+          source.forEachFeatureIntersectingExtent(geom.getExtent(), (obstacle: Feature) => {
+            const obstacleGeom = obstacle.getGeometry()
+            if (features.includes(obstacle) || !obstacleGeom || !geometriesOverlap(geom, obstacleGeom)) {
+              return
+            }
+            collides = true
+            if (!obstacles.includes(obstacle)) {
+              obstacles.push(obstacle)
+            }
+          })
+        })
+      }
+      if (collides) {
+        invalid.push(feat)
+      }
+    })
+    return { invalid, obstacles }
+  }
+
+  private setInvalid(
+    { invalid, obstacles }: { invalid: Feature[]; obstacles: Feature[] },
+    evt?: MapBrowserEvent<PointerEvent | KeyboardEvent>,
+  ): void {
+    if (invalid.length === this._invalid.length && invalid.every((feat) => this._invalid.includes(feat))) {
+      return
+    }
+    this._invalid = invalid
+    this.dispatchEvent(new TransformCollisionEvent({ type: "collisionchange", target: this, invalid, obstacles, mapBrowserEvent: evt }))
+  }
+
+  /**
+   * sizes in degrees mean nothing on the ground, so a view in degrees is treated like `geodesic` for measuring and planar math alike
+   */
+  private isGeodesic(): boolean {
+    return this._geodesic || this.getMap()?.getView().getProjection().getUnits() === "degrees"
+  }
+
+  /**
+   * distance in meters on the ground if `geodesic` or the view is in degrees, else in map units
+   */
+  private measureDistance(c1: Coordinate, c2: Coordinate): number {
+    const projection = this.getMap()?.getView().getProjection()
+    if (!projection || !this.isGeodesic()) {
+      return calcDistance(c1, c2)
+    }
+    return getDistance(toLonLat(c1, projection), toLonLat(c2, projection))
+  }
+
+  /**
+   * tangent plane around the center of the features, or the map itself unless `isGeodesic`
+   */
+  private getPlane(features: Feature[]): TangentPlane {
+    const projection = this.getMap()?.getView().getProjection()
+    if (!this.isGeodesic() || !projection || features.length === 0) {
+      return mapPlane
+    }
+    const extent = createEmpty()
+    features.forEach((feat) => extend(extent, feat.getGeometry()!.getExtent()))
+    return createTangentPlane(getCenter(extent), projection)
+  }
+
   private rotatePoint([x, y]: Coordinate, anchor: Coordinate, angle: number): Coordinate {
     const [ax, ay] = anchor
     return [(x - ax) * Math.cos(angle) - (y - ay) * Math.sin(angle) + ax, (x - ax) * Math.sin(angle) + (y - ay) * Math.cos(angle) + ay]
@@ -0,0 +1,43 @@
+import { MapBrowserEvent } from "ol"
+import Feature from "ol/Feature"
+import BaseEvent from "ol/events/Event"
+
+import Transform from "./Transform"
+
+export type TransformCollisionEventType = "collisionchange"
+
+export default class TransformCollisionEvent extends BaseEvent {
+  target: Transform
+  /**
+   * transformed features that overlap an obstacle or leave the boundary
+   */
+  invalid: Feature[]
+  /**
+   * obstacles overlapped by the invalid features
+   */
+  obstacles: Feature[]
+  /**
+   * undefined for transforms started through the API
+   */
+  mapBrowserEvent?: MapBrowserEvent<PointerEvent | KeyboardEvent>
+
+  constructor({
+    type,
+    target,
+    invalid,
+    obstacles,
+    mapBrowserEvent,
+  }: {
+    type: TransformCollisionEventType
+    target: Transform
+    invalid: Feature[]
+    obstacles: Feature[]
+    mapBrowserEvent?: MapBrowserEvent<PointerEvent | KeyboardEvent>
+  }) {
+    super(type)
+    this.target = target
+    this.invalid = invalid
+    this.obstacles = obstacles
+    this.mapBrowserEvent = mapBrowserEvent
+  }
+}
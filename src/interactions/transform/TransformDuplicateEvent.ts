@@ -0,0 +1,43 @@
+import { MapBrowserEvent } from "ol"
+import Feature from "ol/Feature"
+import BaseEvent from "ol/events/Event"
+
+import Transform from "./Transform"
+
+export type TransformDuplicateEventType = "duplicate"
+
+export default class TransformDuplicateEvent extends BaseEvent {
+  target: Transform
+  /**
+   * the copies added to the sources of `originals`
+   */
+  features: Feature[]
+  /**
+   * the feature each copy was made from, by index
+   */
+  originals: Feature[]
+  /**
+   * undefined for copies made through the API
+   */
+  mapBrowserEvent?: MapBrowserEvent<PointerEvent>
+
+  constructor({
+    type,
+    target,
+    features,
+    originals,
+    mapBrowserEvent,
+  }: {
+    type: TransformDuplicateEventType
+    target: Transform
+    features: Feature[]
+    originals: Feature[]
+    mapBrowserEvent?: MapBrowserEvent<PointerEvent>
+  }) {
+    super(type)
+    this.target = target
+    this.features = features
+    this.originals = originals
+    this.mapBrowserEvent = mapBrowserEvent
+  }
+}
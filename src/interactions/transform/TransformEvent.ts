@@ -1,8 +1,11 @@
 import { MapBrowserEvent } from "ol"
+import Feature from "ol/Feature"
 import { type Coordinate } from "ol/coordinate"
 import BaseEvent from "ol/events/Event"
+import { Geometry } from "ol/geom"
 
-import Transform from "./Transform"
+import Transform, { type TransformMode } from "./Transform"
+import { type TransformOperation } from "./TransformOperation"
 
 export type TransformEventType =
   | "click"
@@ -13,6 +16,7 @@ export type TransformEventType =
   | "pointermove"
   | "mousedown"
   | "mouseup"
+  | "beforetransform"
   | "transformstart"
   | "transforming"
   | "transformend"
@@ -25,12 +29,63 @@ export type TransformEventType =
   | "scalestart"
   | "scaling"
   | "scaleend"
+  | "vertexstart"
+  | "vertexing"
+  | "vertexend"
+  | "pivotstart"
+  | "pivoting"
+  | "pivotend"
+  | "skewstart"
+  | "skewing"
+  | "skewend"
+  | "distortstart"
+  | "distorting"
+  | "distortend"
+  | "flipstart"
+  | "flipping"
+  | "flipend"
+  | "transformcancel"
+  | "delete"
+
+/**
+ * change of the current gesture relative to where it started
+ */
+export type TransformDelta = {
+  dx: number
+  dy: number
+  /**
+   * radians, counter-clockwise
+   */
+  angle: number
+  scaleX: number
+  scaleY: number
+}
 
 export default class TransformEvent extends BaseEvent {
   target: Transform
-  mapBrowserEvent: MapBrowserEvent<MouseEvent>
+  /**
+   * the pointer or key event of a gesture,
+   * undefined for transforms started through the API like `translate` or `scaleTo`, so check it before use
+   */
+  mapBrowserEvent?: MapBrowserEvent<PointerEvent | KeyboardEvent>
   startCoordinate: Coordinate
   coordinate: Coordinate
+  /**
+   * the selected features
+   */
+  features: Feature[]
+  /**
+   * the geometries of `features`, in `beforetransform` replace an entry to adjust the proposed geometry,
+   * which is checked for collisions again, or call `preventDefault()` to reject the step
+   */
+  geometries: Geometry[]
+  mode: TransformMode
+  delta: TransformDelta
+  /**
+   * the completed gesture in `transformend`, undefined if it changed nothing
+   * or if a `beforetransform` listener adjusted its geometries, which an operation cannot replay
+   */
+  operation?: TransformOperation
 
   constructor({
     type,
@@ -38,17 +93,32 @@ export default class TransformEvent extends BaseEvent {
     mapBrowserEvent,
     startCoordinate,
     coordinate,
+    features,
+    geometries,
+    mode,
+    delta,
+    operation,
   }: {
     type: TransformEventType
     target: Transform
-    mapBrowserEvent: MapBrowserEvent<MouseEvent>
+    mapBrowserEvent?: MapBrowserEvent<PointerEvent | KeyboardEvent>
     startCoordinate: Coordinate
     coordinate: Coordinate
+    features: Feature[]
+    geometries: Geometry[]
+    mode: TransformMode
+    delta: TransformDelta
+    operation?: TransformOperation
   }) {
     super(type)
     this.target = target
     this.mapBrowserEvent = mapBrowserEvent
     this.startCoordinate = startCoordinate
     this.coordinate = coordinate
+    this.features = features
+    this.geometries = geometries
+    this.mode = mode
+    this.delta = delta
+    this.operation = operation
   }
 }
@@ -0,0 +1,106 @@
+import Feature from "ol/Feature"
+import { Geometry } from "ol/geom"
+import VectorSource from "ol/source/Vector"
+import { type StyleLike } from "ol/style/Style"
+
+import { getSymbolStyles } from "../../util"
+
+export type TransformSnapshot = {
+  geometry: Geometry
+  angle?: number
+  flipped?: boolean
+  /**
+   * the style of a point with a rotated or scaled icon or text
+   */
+  style?: StyleLike
+}
+
+export type TransformHistoryEntry = {
+  features: Feature[]
+  before: TransformSnapshot[]
+  after: TransformSnapshot[]
+  /**
+   * copies the transform added to their sources, undo takes them out again and selects the originals in their place
+   */
+  added?: { feature: Feature; source: VectorSource; original: Feature }[]
+}
+
+export default class TransformHistory {
+  private _undoStack: TransformHistoryEntry[] = []
+  private _redoStack: TransformHistoryEntry[] = []
+  private _depth: number
+
+  constructor(depth: number) {
+    this._depth = Math.max(0, depth)
+  }
+
+  get depth(): number {
+    return this._depth
+  }
+
+  get canUndo(): boolean {
+    return this._undoStack.length > 0
+  }
+
+  get canRedo(): boolean {
+    return this._redoStack.length > 0
+  }
+
+  /**
+   * @return true if undoable entries were dropped to fit the new depth
+   */
+  setDepth(depth: number): boolean {
+    this._depth = Math.max(0, depth)
+    return this.trim()
+  }
+
+  /**
+   * push a completed transform and drop everything that could be redone
+   */
+  push(entry: TransformHistoryEntry): void {
+    if (this._depth === 0) {
+      return
+    }
+    this._undoStack.push(entry)
+    this._redoStack = []
+    this.trim()
+  }
+
+  undo(): TransformHistoryEntry | undefined {
+    const entry = this._undoStack.pop()
+    if (entry) {
+      this._redoStack.push(entry)
+    }
+    return entry
+  }
+
+  redo(): TransformHistoryEntry | undefined {
+    const entry = this._redoStack.pop()
+    if (entry) {
+      this._undoStack.push(entry)
+    }
+    return entry
+  }
+
+  clear(): void {
+    this._undoStack = []
+    this._redoStack = []
+  }
+
+  static snapshot(feat: Feature, angleProperty: string, flipProperty: string): TransformSnapshot {
+    return {
+      geometry: feat.getGeometry()!.clone(),
+      angle: feat.get(angleProperty),
+      flipped: feat.get(flipProperty),
+      style: getSymbolStyles(feat).length > 0 ? feat.getStyle() : undefined,
+    }
+  }
+
+  private trim(): boolean {
+    if (this._undoStack.length <= this._depth) {
+      return false
+    }
+    this._undoStack.splice(0, this._undoStack.length - this._depth)
+    return true
+  }
+}
@@ -0,0 +1,37 @@
+import BaseEvent from "ol/events/Event"
+
+import Transform from "./Transform"
+
+export type TransformHistoryEventType = "historychange"
+
+/**
+ * "trim" drops the oldest undoable entries after the history depth was lowered
+ */
+export type TransformHistoryAction = "push" | "undo" | "redo" | "clear" | "trim"
+
+export default class TransformHistoryEvent extends BaseEvent {
+  target: Transform
+  action: TransformHistoryAction
+  canUndo: boolean
+  canRedo: boolean
+
+  constructor({
+    type,
+    target,
+    action,
+    canUndo,
+    canRedo,
+  }: {
+    type: TransformHistoryEventType
+    target: Transform
+    action: TransformHistoryAction
+    canUndo: boolean
+    canRedo: boolean
+  }) {
+    super(type)
+    this.target = target
+    this.action = action
+    this.canUndo = canUndo
+    this.canRedo = canRedo
+  }
+}
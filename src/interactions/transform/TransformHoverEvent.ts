@@ -0,0 +1,39 @@
+import { MapBrowserEvent } from "ol"
+import Feature from "ol/Feature"
+import BaseEvent from "ol/events/Event"
+
+import Transform from "./Transform"
+
+/**
+ * `hoverend` for the previous feature is dispatched before `hoverstart` for the next one
+ */
+export type TransformHoverEventType = "hoverstart" | "hoverend"
+
+export default class TransformHoverEvent extends BaseEvent {
+  target: Transform
+  /**
+   * a selectable feature of `layers` or `imageLayers`, or a `HandleFeature`
+   */
+  feature: Feature
+  /**
+   * undefined when the interaction is removed from the map
+   */
+  mapBrowserEvent?: MapBrowserEvent<PointerEvent>
+
+  constructor({
+    type,
+    target,
+    feature,
+    mapBrowserEvent,
+  }: {
+    type: TransformHoverEventType
+    target: Transform
+    feature: Feature
+    mapBrowserEvent?: MapBrowserEvent<PointerEvent>
+  }) {
+    super(type)
+    this.target = target
+    this.feature = feature
+    this.mapBrowserEvent = mapBrowserEvent
+  }
+}
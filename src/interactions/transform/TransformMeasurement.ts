@@ -0,0 +1,43 @@
+import { type TransformMode } from "./Transform"
+
+export type TransformMeasurement = {
+  mode: TransformMode
+  /**
+   * size of the rotated bounding box of the transformed feature or group
+   */
+  width: number
+  height: number
+  /**
+   * orientation in degrees, counter-clockwise
+   */
+  angle: number
+  /**
+   * rotation of the current gesture in degrees, counter-clockwise
+   */
+  rotation: number
+  /**
+   * translation of the current gesture
+   */
+  dx: number
+  dy: number
+  distance: number
+  /**
+   * "m" for geodesic measurements in geographic projections, the projection units otherwise
+   */
+  units: string
+}
+
+export const formatMeasurement = ({ mode, width, height, angle, dx, dy, distance, units }: TransformMeasurement): string => {
+  switch (mode) {
+    case "scale":
+    case "skew":
+    case "distort":
+      return `${width.toFixed(2)} × ${height.toFixed(2)} ${units}`
+    case "rotate":
+      return `${angle.toFixed(1)}°`
+    case "translate":
+      return `${distance.toFixed(2)} ${units} (${dx.toFixed(2)}, ${dy.toFixed(2)})`
+    default:
+      return ""
+  }
+}
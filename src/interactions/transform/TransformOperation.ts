@@ -0,0 +1,103 @@
+import { type Coordinate } from "ol/coordinate"
+
+import { type VertexEdit } from "../../util"
+
+/**
+ * how one feature changed in a gesture, applied in the order matrix, scale, rotate, translate, vertex
+ */
+export type FeatureOperation = {
+  id: string | number | undefined
+  /**
+   * center of the tangent plane the feature was rotated and scaled in, set with `geodesic`
+   */
+  origin?: Coordinate
+  /**
+   * projective 3x3 matrix in row-major order, in the tangent plane if `origin` is set
+   */
+  matrix?: number[]
+  /**
+   * factors along the axes of a frame turned by `angle` radians around `anchor`
+   */
+  scale?: { scaleX: number; scaleY: number; anchor: Coordinate; angle: number }
+  /**
+   * radians, counter-clockwise around `pivot`
+   */
+  rotate?: { angle: number; pivot: Coordinate }
+  translate?: { dx: number; dy: number }
+  vertex?: { path: number[]; index: number; edit: VertexEdit }
+}
+
+export type TransformOperation = {
+  mode: "translate" | "rotate" | "scale" | "vertex" | "skew" | "distort" | "flip"
+  features: FeatureOperation[]
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+const isNumberArray = (value: unknown): value is number[] => {
+  return Array.isArray(value) && value.every((n) => typeof n === "number")
+}
+
+const isCoordinate = (value: unknown): value is Coordinate => {
+  return isNumberArray(value) && value.length >= 2
+}
+
+const isVertexEdit = (value: unknown): value is VertexEdit => {
+  if (!isRecord(value)) {
+    return false
+  }
+  return value.type === "remove" || ((value.type === "set" || value.type === "insert") && isCoordinate(value.coordinate))
+}
+
+const isFeatureOperation = (value: unknown): value is FeatureOperation => {
+  if (!isRecord(value)) {
+    return false
+  }
+  const { id, origin, matrix, scale, rotate, translate, vertex } = value
+  return (
+    (id === undefined || typeof id === "string" || typeof id === "number") &&
+    (origin === undefined || isCoordinate(origin)) &&
+    (matrix === undefined || (isNumberArray(matrix) && matrix.length === 9)) &&
+    (scale === undefined ||
+      (isRecord(scale) &&
+        typeof scale.scaleX === "number" &&
+        typeof scale.scaleY === "number" &&
+        typeof scale.angle === "number" &&
+        isCoordinate(scale.anchor))) &&
+    (rotate === undefined || (isRecord(rotate) && typeof rotate.angle === "number" && isCoordinate(rotate.pivot))) &&
+    (translate === undefined || (isRecord(translate) && typeof translate.dx === "number" && typeof translate.dy === "number")) &&
+    (vertex === undefined ||
+      (isRecord(vertex) && isNumberArray(vertex.path) && typeof vertex.index === "number" && isVertexEdit(vertex.edit)))
+  )
+}
+
+export const serializeOperation = (operation: TransformOperation): string => {
+  return JSON.stringify(operation)
+}
+
+/**
+ * @return undefined if the json does not describe an operation
+ */
+export const parseOperation = (json: string): TransformOperation | undefined => {
+  let value: unknown
+  try {
+    value = JSON.parse(json)
+  } catch {
+    return
+  }
+  if (!isRecord(value)) {
+    return
+  }
+  const { mode, features } = value
+  if (
+    typeof mode !== "string" ||
+    !["translate", "rotate", "scale", "vertex", "skew", "distort", "flip"].includes(mode) ||
+    !Array.isArray(features) ||
+    !features.every(isFeatureOperation)
+  ) {
+    return
+  }
+  return value as TransformOperation
+}
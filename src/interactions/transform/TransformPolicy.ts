@@ -0,0 +1,50 @@
+import Feature from "ol/Feature"
+import { type Extent } from "ol/extent"
+
+export type TransformPolicy = {
+  translate?: boolean
+  rotate?: boolean
+  scale?: boolean
+  vertex?: boolean
+  /**
+   * unset follows `scale`, as both drag the scale handles
+   */
+  skew?: boolean
+  distort?: boolean
+  flip?: boolean
+  /**
+   * size limits of the rotated bounding box in map units
+   */
+  minWidth?: number
+  maxWidth?: number
+  minHeight?: number
+  maxHeight?: number
+  /**
+   * max absolute orientation in radians, measured from the `angle` property (0 if unset)
+   */
+  maxRotation?: number
+  /**
+   * extent the geometry may not leave
+   */
+  extent?: Extent
+}
+
+/**
+ * feature property holding a `TransformPolicy`, it overrides the fields returned by the `policy` option
+ */
+export const policyProperty = "transformPolicy"
+
+export const resolvePolicy = (feat: Feature, policy?: (feat: Feature) => TransformPolicy | undefined): TransformPolicy => {
+  return { ...policy?.(feat), ...feat.get(policyProperty) }
+}
+
+/**
+ * clamp the magnitude of a scale factor so that `size * |scale|` stays within [min, max], keeping its sign
+ */
+export const clampScale = (scale: number, size: number, min = 0, max = Infinity): number => {
+  if (size === 0) {
+    return scale
+  }
+  const magnitude = Math.min(Math.max(Math.abs(scale), min / size), max / size)
+  return (Math.sign(scale) || 1) * magnitude
+}
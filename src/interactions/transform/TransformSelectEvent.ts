@@ -0,0 +1,40 @@
+import { MapBrowserEvent } from "ol"
+import Feature from "ol/Feature"
+import BaseEvent from "ol/events/Event"
+
+import Transform from "./Transform"
+
+/**
+ * `beforeselect` is dispatched before `selectionchange`, `preventDefault()` on it restores the previous selection
+ */
+export type TransformSelectEventType = "beforeselect" | "selectionchange"
+
+export default class TransformSelectEvent extends BaseEvent {
+  target: Transform
+  selected: Feature[]
+  deselected: Feature[]
+  /**
+   * undefined for selections changed through the API
+   */
+  mapBrowserEvent?: MapBrowserEvent<PointerEvent>
+
+  constructor({
+    type,
+    target,
+    selected,
+    deselected,
+    mapBrowserEvent,
+  }: {
+    type: TransformSelectEventType
+    target: Transform
+    selected: Feature[]
+    deselected: Feature[]
+    mapBrowserEvent?: MapBrowserEvent<PointerEvent>
+  }) {
+    super(type)
+    this.target = target
+    this.selected = selected
+    this.deselected = deselected
+    this.mapBrowserEvent = mapBrowserEvent
+  }
+}
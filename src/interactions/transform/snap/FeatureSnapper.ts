@@ -0,0 +1,65 @@
+import Feature from "ol/Feature"
+import { closestOnSegment, type Coordinate } from "ol/coordinate"
+import { boundingExtent, buffer } from "ol/extent"
+import { Layer } from "ol/layer"
+import { Source, Vector as VectorSource } from "ol/source"
+
+import { type SnapResult, type Snapper } from "./Snapper"
+import { calcDistance, getGeometryPaths } from "../../../util"
+
+export type FeatureSnapperOptions = {
+  layers: Layer<Source>[]
+  /**
+   * snap to the nearest point on an edge when no vertex is in tolerance
+   */
+  edges?: boolean
+}
+
+/**
+ * snaps to vertices and edges of the features in vector layers, vertices win over edges
+ */
+export default class FeatureSnapper implements Snapper {
+  private _layers: Layer<Source>[]
+  private _edges: boolean
+
+  constructor({ layers, edges = true }: FeatureSnapperOptions) {
+    this._layers = layers
+    this._edges = edges
+  }
+
+  snap(coord: Coordinate, tolerance: number, exclude: Feature[]): SnapResult | undefined {
+    const extent = buffer(boundingExtent([coord]), tolerance)
+    let vertex: SnapResult | undefined
+    let edge: SnapResult | undefined
+
+    this._layers.forEach((layer) => {
+      const source = layer.getSource()
+      if (!(source instanceof VectorSource)) {
+        return
+      }
+      source.forEachFeatureInExtent(extent, (feat: Feature) => {
+        const geom = feat.getGeometry()
+        if (!geom || exclude.includes(feat)) {
+          return
+        }
+        getGeometryPaths(geom).forEach((path) => {
+          path.forEach((c, i) => {
+            const d = calcDistance(coord, c)
+            if (d <= tolerance && (!vertex || d < vertex.distance)) {
+              vertex = { coordinate: c, distance: d, type: "vertex" }
+            }
+            if (this._edges && i > 0) {
+              const closest = closestOnSegment(coord, [path[i - 1], c])
+              const de = calcDistance(coord, closest)
+              if (de <= tolerance && (!edge || de < edge.distance)) {
+                edge = { coordinate: closest, distance: de, type: "edge" }
+              }
+            }
+          })
+        })
+      })
+    })
+
+    return vertex ?? edge
+  }
+}
@@ -0,0 +1,44 @@
+import Feature from "ol/Feature"
+import { type Coordinate } from "ol/coordinate"
+
+import { type SnapResult, type Snapper } from "./Snapper"
+import { calcDistance } from "../../../util"
+
+export type GridSnapperOptions = {
+  /**
+   * grid cell size in map units
+   */
+  size: number
+  origin?: Coordinate
+}
+
+/**
+ * snaps each axis independently, so an edge can line up with a grid line without its corner hitting an intersection
+ */
+export default class GridSnapper implements Snapper {
+  private _size: number
+  private _origin: Coordinate
+
+  constructor({ size, origin = [0, 0] }: GridSnapperOptions) {
+    this._size = size
+    this._origin = origin
+  }
+
+  snap(coord: Coordinate, tolerance: number, _exclude: Feature[]): SnapResult | undefined {
+    if (this._size <= 0) {
+      return
+    }
+    const [x, y] = coord
+    const [ox, oy] = this._origin
+    const gx = Math.round((x - ox) / this._size) * this._size + ox
+    const gy = Math.round((y - oy) / this._size) * this._size + oy
+    const snapX = Math.abs(gx - x) <= tolerance
+    const snapY = Math.abs(gy - y) <= tolerance
+    if (!snapX && !snapY) {
+      return
+    }
+
+    const snapped = [snapX ? gx : x, snapY ? gy : y]
+    return { coordinate: snapped, distance: calcDistance(coord, snapped), type: "grid" }
+  }
+}
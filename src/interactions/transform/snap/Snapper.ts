@@ -0,0 +1,26 @@
+import Feature from "ol/Feature"
+import { type Coordinate } from "ol/coordinate"
+
+export type SnapResult = {
+  /**
+   * the snapped coordinate
+   */
+  coordinate: Coordinate
+  /**
+   * distance between the original and the snapped coordinate in map units
+   */
+  distance: number
+  /**
+   * what was snapped to, e.g. "grid", "vertex" or "edge"
+   */
+  type: string
+}
+
+export interface Snapper {
+  /**
+   * @param coord coordinate to snap
+   * @param tolerance max snapping distance in map units
+   * @param exclude features that are being transformed and must not be snapped to
+   */
+  snap(coord: Coordinate, tolerance: number, exclude: Feature[]): SnapResult | undefined
+}
@@ -1,6 +1,26 @@
+import Feature from "ol/Feature"
 import { type Coordinate } from "ol/coordinate"
-import { getCenter } from "ol/extent"
-import { Polygon } from "ol/geom"
+import {
+  boundingExtent,
+  containsExtent,
+  createEmpty,
+  extendCoordinate,
+  getArea,
+  getCenter,
+  getHeight,
+  getWidth,
+  intersects,
+} from "ol/extent"
+import { Circle, Geometry, GeometryCollection, LineString, MultiLineString, MultiPoint, MultiPolygon, Point, Polygon } from "ol/geom"
+import { fromCircle } from "ol/geom/Polygon"
+import { fromLonLat, type ProjectionLike, toLonLat, type TransformFunction } from "ol/proj"
+import { type Size } from "ol/size"
+import { Icon, Style } from "ol/style"
+
+/**
+ * mean earth radius in meters, as used by `ol/sphere`
+ */
+const EARTH_RADIUS = 6371008.8
 
 /**
  * rearrange coordinates to counter-clockwise
@@ -22,6 +42,20 @@ export const rearrangeCoords = (coords: Coordinate[]): Coordinate[] => {
   ]
 }
 
+/**
+ * normalize an angle to (-PI, PI]
+ */
+export const normalizeAngle = (angle: number): number => {
+  const normalized = angle % (2 * Math.PI)
+  if (normalized > Math.PI) {
+    return normalized - 2 * Math.PI
+  }
+  if (normalized <= -Math.PI) {
+    return normalized + 2 * Math.PI
+  }
+  return normalized
+}
+
 export const calcDistance = (c1: Coordinate, c2: Coordinate): number => {
   const { width, height } = calcSize(c1, c2)
 
@@ -34,3 +68,494 @@ export const calcSize = (c1: Coordinate, c2: Coordinate) => {
     height: Math.abs(c1[1] - c2[1]),
   }
 }
+
+/**
+ * flatten a geometry into paths of coordinates, one per line or ring
+ * points become paths with a single coordinate
+ */
+export const getGeometryPaths = (geom: Geometry): Coordinate[][] => {
+  if (geom instanceof Point) {
+    return [[geom.getCoordinates()]]
+  }
+  if (geom instanceof MultiPoint) {
+    return geom.getCoordinates().map((coord) => [coord])
+  }
+  if (geom instanceof LineString) {
+    return [geom.getCoordinates()]
+  }
+  if (geom instanceof MultiLineString || geom instanceof Polygon) {
+    return geom.getCoordinates()
+  }
+  if (geom instanceof MultiPolygon) {
+    return geom.getCoordinates().reduce((paths, polygon) => paths.concat(polygon), [] as Coordinate[][])
+  }
+  if (geom instanceof Circle) {
+    return [[geom.getCenter()]]
+  }
+  if (geom instanceof GeometryCollection) {
+    return geom.getGeometries().reduce((paths, g) => paths.concat(getGeometryPaths(g)), [] as Coordinate[][])
+  }
+  return []
+}
+
+export type VertexPath = {
+  /**
+   * indices from the geometry coordinates down to the line or ring
+   */
+  prefix: number[]
+  coords: Coordinate[]
+  /**
+   * a ring repeats its first coordinate at the end
+   */
+  closed: boolean
+}
+
+export type VertexGeometry = LineString | Polygon | MultiLineString | MultiPolygon
+
+export const isVertexGeometry = (geom: Geometry): geom is VertexGeometry => {
+  return geom instanceof LineString || geom instanceof Polygon || geom instanceof MultiLineString || geom instanceof MultiPolygon
+}
+
+export const getVertexPaths = (geom: VertexGeometry): VertexPath[] => {
+  if (geom instanceof LineString) {
+    return [{ prefix: [], coords: geom.getCoordinates(), closed: false }]
+  }
+  if (geom instanceof MultiLineString) {
+    return geom.getCoordinates().map((coords, i) => ({ prefix: [i], coords, closed: false }))
+  }
+  if (geom instanceof Polygon) {
+    return geom.getCoordinates().map((coords, i) => ({ prefix: [i], coords, closed: true }))
+  }
+  return geom
+    .getCoordinates()
+    .reduce((paths, polygon, i) => paths.concat(polygon.map((coords, j) => ({ prefix: [i, j], coords, closed: true }))), [] as VertexPath[])
+}
+
+export type VertexEdit = { type: "set" | "insert"; coordinate: Coordinate } | { type: "remove" }
+
+const editPath = (coords: Coordinate[], index: number, edit: VertexEdit, closed: boolean): boolean => {
+  switch (edit.type) {
+    case "set":
+      coords[index] = edit.coordinate
+      break
+    case "insert":
+      coords.splice(index, 0, edit.coordinate)
+      break
+    case "remove":
+      if (coords.length - 1 < (closed ? 4 : 2)) {
+        return false
+      }
+      coords.splice(index, 1)
+      break
+  }
+  if (closed) {
+    // the closing coordinate follows the first one
+    if (edit.type !== "insert" && index === 0) {
+      coords[coords.length - 1] = coords[0]
+    } else if (edit.type === "set" && index === coords.length - 1) {
+      coords[0] = coords[index]
+    }
+  }
+  return true
+}
+
+/**
+ * replace, insert or remove a vertex of the line or ring at `prefix`, keeping rings closed
+ * @return false if the change would leave too few vertices
+ */
+export const editVertex = (geom: VertexGeometry, prefix: number[], index: number, edit: VertexEdit): boolean => {
+  const [i = 0, j = 0] = prefix
+  if (geom instanceof LineString) {
+    const coords = geom.getCoordinates()
+    if (!editPath(coords, index, edit, false)) {
+      return false
+    }
+    geom.setCoordinates(coords)
+  } else if (geom instanceof MultiLineString || geom instanceof Polygon) {
+    const coords = geom.getCoordinates()
+    if (!editPath(coords[i], index, edit, geom instanceof Polygon)) {
+      return false
+    }
+    geom.setCoordinates(coords)
+  } else {
+    const coords = geom.getCoordinates()
+    if (!editPath(coords[i][j], index, edit, true)) {
+      return false
+    }
+    geom.setCoordinates(coords)
+  }
+  return true
+}
+
+/**
+ * position of a coordinate relative to a box in the order of `rearrangeCoords`,
+ * [0, 0] is the bottom-left and [1, 1] the top-right corner
+ */
+export const toBoxRelative = (coords: Coordinate[], [x, y]: Coordinate): Coordinate => {
+  const [tl, bl, br] = coords
+  const ux = br[0] - bl[0]
+  const uy = br[1] - bl[1]
+  const vx = tl[0] - bl[0]
+  const vy = tl[1] - bl[1]
+  const uu = ux * ux + uy * uy
+  const vv = vx * vx + vy * vy
+
+  return [uu === 0 ? 0.5 : ((x - bl[0]) * ux + (y - bl[1]) * uy) / uu, vv === 0 ? 0.5 : ((x - bl[0]) * vx + (y - bl[1]) * vy) / vv]
+}
+
+export const fromBoxRelative = (coords: Coordinate[], [u, v]: Coordinate): Coordinate => {
+  const [tl, bl, br] = coords
+  return [bl[0] + u * (br[0] - bl[0]) + v * (tl[0] - bl[0]), bl[1] + u * (br[1] - bl[1]) + v * (tl[1] - bl[1])]
+}
+
+/**
+ * apply a function of one coordinate to flat coordinates, as `Geometry.applyTransform` wants
+ */
+const toTransformFunction = (fn: (coord: Coordinate) => Coordinate): TransformFunction => {
+  return (input, output = input.slice(), dimension = 2) => {
+    for (let i = 0; i + 1 < input.length; i += dimension) {
+      const [x, y] = fn([input[i], input[i + 1]])
+      output[i] = x
+      output[i + 1] = y
+    }
+    return output
+  }
+}
+
+export type TangentPlane = {
+  /**
+   * undefined for the map itself
+   */
+  origin?: Coordinate
+  forward: TransformFunction
+  inverse: TransformFunction
+  /**
+   * a single coordinate in the plane
+   */
+  toPlane: (coord: Coordinate) => Coordinate
+}
+
+const copyCoordinates: TransformFunction = (input, output) => {
+  if (output && output !== input) {
+    input.forEach((value, i) => (output[i] = value))
+    return output
+  }
+  return output ?? input.slice()
+}
+
+/**
+ * the identity for views where planar math is wanted
+ */
+export const mapPlane: TangentPlane = { forward: copyCoordinates, inverse: copyCoordinates, toPlane: (coord) => coord.slice() }
+
+/**
+ * a local east-north frame in meters around `origin`, in which distances and right angles
+ * hold on the ground for features far smaller than the earth
+ */
+export const createTangentPlane = (origin: Coordinate, projection: ProjectionLike): TangentPlane => {
+  const [lon0, lat0] = toLonLat(origin, projection)
+  const toRadians = Math.PI / 180
+  const metersPerDegreeY = EARTH_RADIUS * toRadians
+  const metersPerDegreeX = metersPerDegreeY * Math.max(Math.cos(lat0 * toRadians), 1e-9)
+
+  const toPlane = (coord: Coordinate): Coordinate => {
+    const [lon, lat] = toLonLat(coord, projection)
+    // the shorter way around the antimeridian
+    return [(normalizeAngle((lon - lon0) * toRadians) / toRadians) * metersPerDegreeX, (lat - lat0) * metersPerDegreeY]
+  }
+  const fromPlane = ([x, y]: Coordinate): Coordinate => fromLonLat([lon0 + x / metersPerDegreeX, lat0 + y / metersPerDegreeY], projection)
+
+  return { origin, forward: toTransformFunction(toPlane), inverse: toTransformFunction(fromPlane), toPlane }
+}
+
+/**
+ * convex hull in counter-clockwise order, by the monotone chain algorithm
+ */
+export const calcConvexHull = (coords: Coordinate[]): Coordinate[] => {
+  const sorted = coords.slice().sort((a, b) => a[0] - b[0] || a[1] - b[1])
+  if (sorted.length < 3) {
+    return sorted
+  }
+  const cross = (o: Coordinate, a: Coordinate, b: Coordinate) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0])
+  const chain = (points: Coordinate[]) => {
+    const hull: Coordinate[] = []
+    points.forEach((p) => {
+      while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], p) <= 0) {
+        hull.pop()
+      }
+      hull.push(p)
+    })
+    // the last point starts the other chain
+    hull.pop()
+    return hull
+  }
+  return chain(sorted).concat(chain(sorted.reverse()))
+}
+
+/**
+ * orientation of the minimum-area rectangle around the coordinates in (-PI / 4, PI / 4],
+ * one side of that rectangle is always collinear with an edge of the convex hull
+ */
+export const calcMinAreaAngle = (coords: Coordinate[]): number => {
+  const hull = calcConvexHull(coords)
+  if (hull.length < 2) {
+    return 0
+  }
+  let best = { area: Infinity, angle: 0 }
+  hull.forEach((p, i) => {
+    const q = hull[(i + 1) % hull.length]
+    const angle = Math.atan2(q[1] - p[1], q[0] - p[0])
+    const cos = Math.cos(-angle)
+    const sin = Math.sin(-angle)
+    const extent = createEmpty()
+    hull.forEach(([x, y]) => extendCoordinate(extent, [x * cos - y * sin, x * sin + y * cos]))
+    const area = getArea(extent)
+    // prefer the previous edge on ties, so that axis-aligned shapes keep angle 0
+    if (area < best.area * (1 - 1e-9)) {
+      best = { area, angle }
+    }
+  })
+  // the rectangle looks the same every quarter turn
+  const quarter = Math.PI / 2
+  return best.angle - Math.round(best.angle / quarter) * quarter
+}
+
+/**
+ * the factor of a non-uniform scale that changes the size most, without its sign
+ */
+export const dominantScale = (scaleX: number, scaleY: number): number => {
+  return Math.abs(Math.abs(scaleX) - 1) >= Math.abs(Math.abs(scaleY) - 1) ? Math.abs(scaleX) : Math.abs(scaleY)
+}
+
+/**
+ * scale like `Geometry.scale`, but keep circles round, also inside collections,
+ * by scaling their radius with `dominantScale`
+ */
+export const scaleGeometry = (geom: Geometry, scaleX: number, scaleY: number, anchor: Coordinate): void => {
+  if (geom instanceof Circle) {
+    const [cx, cy] = geom.getCenter()
+    const [ax, ay] = anchor
+    geom.setCenterAndRadius([ax + (cx - ax) * scaleX, ay + (cy - ay) * scaleY], geom.getRadius() * dominantScale(scaleX, scaleY))
+  } else if (geom instanceof GeometryCollection) {
+    const geometries = geom.getGeometries()
+    geometries.forEach((g) => scaleGeometry(g, scaleX, scaleY, anchor))
+    geom.setGeometries(geometries)
+  } else {
+    geom.scale(scaleX, scaleY, anchor)
+  }
+}
+
+/**
+ * the feature's own styles of a point with an icon or a text, which can be rotated and scaled
+ */
+export const getSymbolStyles = (feat: Feature): Style[] => {
+  const style = feat.getStyle()
+  if (!(feat.getGeometry() instanceof Point) || !style || typeof style === "function") {
+    return []
+  }
+  return (Array.isArray(style) ? style : [style]).filter((s) => s.getImage() instanceof Icon || s.getText())
+}
+
+let measureContext: CanvasRenderingContext2D | null | undefined
+
+/**
+ * rendered size of the icon or text of a style in pixels, unscaled by the view
+ */
+export const getSymbolSize = (style: Style): Size => {
+  let [width, height] = [0, 0]
+  const image = style.getImage()
+  const imageSize = image instanceof Icon ? image.getSize() : null
+  if (image && imageSize) {
+    const [sx, sy] = image.getScaleArray()
+    width = imageSize[0] * Math.abs(sx)
+    height = imageSize[1] * Math.abs(sy)
+  }
+
+  const text = style.getText()
+  const content = text?.getText()
+  if (text && content) {
+    measureContext ??= document.createElement("canvas").getContext("2d")
+    const font = text.getFont() ?? "10px sans-serif"
+    const lines = (Array.isArray(content) ? content.filter((_, i) => i % 2 === 0).join("") : content).split("\n")
+    const lineHeight = Number(/(\d+(?:\.\d+)?)px/.exec(font)?.[1] ?? 10)
+    let textWidth = 0
+    if (measureContext) {
+      measureContext.font = font
+      textWidth = Math.max(...lines.map((line) => measureContext!.measureText(line).width))
+    }
+    const [sx, sy] = text.getScaleArray()
+    width = Math.max(width, textWidth * Math.abs(sx))
+    height = Math.max(height, lines.length * lineHeight * Math.abs(sy))
+  }
+  return [width, height]
+}
+
+const orientation = (a: Coordinate, b: Coordinate, c: Coordinate): number => {
+  return Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]))
+}
+
+/**
+ * two segments cross at a point inside both, touching ends and collinear overlaps do not count
+ */
+export const segmentsCross = (a1: Coordinate, a2: Coordinate, b1: Coordinate, b2: Coordinate): boolean => {
+  return orientation(a1, a2, b1) * orientation(a1, a2, b2) < 0 && orientation(b1, b2, a1) * orientation(b1, b2, a2) < 0
+}
+
+const approximateCircle = (geom: Geometry): Geometry => (geom instanceof Circle ? fromCircle(geom, 32) : geom)
+
+const getSegments = (geom: Geometry): Coordinate[][] => {
+  return getGeometryPaths(geom).reduce(
+    (segments, path) => segments.concat(path.slice(1).map((coord, i) => [path[i], coord])),
+    [] as Coordinate[][],
+  )
+}
+
+/**
+ * points inside the area of polygons, on lines and at points, away from any polygon boundary
+ */
+const getInteriorCoordinates = (geom: Geometry): Coordinate[] => {
+  if (geom instanceof Polygon) {
+    return [geom.getInteriorPoint().getCoordinates().slice(0, 2)]
+  }
+  if (geom instanceof MultiPolygon) {
+    return geom
+      .getInteriorPoints()
+      .getCoordinates()
+      .map((coord) => coord.slice(0, 2))
+  }
+  if (geom instanceof GeometryCollection) {
+    return geom.getGeometries().reduce((coords, g) => coords.concat(getInteriorCoordinates(approximateCircle(g))), [] as Coordinate[])
+  }
+  const segments = getSegments(geom)
+  if (segments.length > 0) {
+    return segments.map(([c1, c2]) => [(c1[0] + c2[0]) / 2, (c1[1] + c2[1]) / 2])
+  }
+  return getGeometryPaths(geom).reduce((coords, path) => coords.concat(path), [] as Coordinate[])
+}
+
+/**
+ * the interiors of two geometries overlap, shapes that only share an edge or a corner do not
+ */
+export const geometriesOverlap = (geom1: Geometry, geom2: Geometry): boolean => {
+  if (!intersects(geom1.getExtent(), geom2.getExtent())) {
+    return false
+  }
+  const a = approximateCircle(geom1)
+  const b = approximateCircle(geom2)
+  const segmentsB = getSegments(b)
+  if (getSegments(a).some(([a1, a2]) => segmentsB.some(([b1, b2]) => segmentsCross(a1, a2, b1, b2)))) {
+    return true
+  }
+  // without crossing edges one has to lie inside the other
+  return (
+    getInteriorCoordinates(a).some((coord) => b.intersectsCoordinate(coord)) ||
+    getInteriorCoordinates(b).some((coord) => a.intersectsCoordinate(coord))
+  )
+}
+
+/**
+ * every vertex of the geometry lies inside the boundary and no edge leaves it
+ */
+export const geometryWithin = (geom: Geometry, boundary: Polygon | MultiPolygon): boolean => {
+  const inner = approximateCircle(geom)
+  if (!containsExtent(boundary.getExtent(), inner.getExtent())) {
+    return false
+  }
+  const boundarySegments = getSegments(boundary)
+  return (
+    getGeometryPaths(inner).every((path) => path.every((coord) => boundary.intersectsCoordinate(coord))) &&
+    !getSegments(inner).some(([a1, a2]) => boundarySegments.some(([b1, b2]) => segmentsCross(a1, a2, b1, b2)))
+  )
+}
+
+/**
+ * product of two 3x3 matrices in row-major order, mapping by `b` first
+ */
+export const multiplyMatrices = (a: number[], b: number[]): number[] => {
+  return [0, 1, 2, 3, 4, 5, 6, 7, 8].map((i) => {
+    const row = Math.floor(i / 3) * 3
+    const col = i % 3
+    return a[row] * b[col] + a[row + 1] * b[col + 3] + a[row + 2] * b[col + 6]
+  })
+}
+
+/**
+ * the projective matrix, 3x3 in row-major order, that maps four coordinates onto four others,
+ * an affine matrix if both quadrilaterals are parallelograms
+ * @return undefined if three of the coordinates lie on a line
+ */
+export const calcHomography = (src: Coordinate[], dst: Coordinate[]): number[] | undefined => {
+  // solve around the center of `src` in units of its size, map coordinates are too large for a stable elimination
+  const extent = boundingExtent(src)
+  const [cx, cy] = getCenter(extent)
+  const size = Math.max(getWidth(extent), getHeight(extent))
+  if (size === 0) {
+    return
+  }
+  const normalize = ([x, y]: Coordinate) => [(x - cx) / size, (y - cy) / size]
+
+  const rows: number[][] = []
+  src.map(normalize).forEach(([x, y], i) => {
+    const [u, v] = normalize(dst[i])
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u])
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v])
+  })
+  // gauss-jordan elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) {
+        pivot = r
+      }
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      return
+    }
+    ;[rows[col], rows[pivot]] = [rows[pivot], rows[col]]
+    rows.forEach((row, r) => {
+      if (r === col) {
+        return
+      }
+      const factor = row[col] / rows[col][col]
+      for (let c = col; c < 9; c++) {
+        row[c] -= factor * rows[col][c]
+      }
+    })
+  }
+  const normalized = [...rows.map((row, i) => row[8] / row[i]), 1]
+
+  const toNormal = [1 / size, 0, -cx / size, 0, 1 / size, -cy / size, 0, 0, 1]
+  const fromNormal = [size, 0, cx, 0, size, cy, 0, 0, 1]
+  const matrix = multiplyMatrices(fromNormal, multiplyMatrices(normalized, toNormal))
+  return matrix.map((value) => value / matrix[8])
+}
+
+export const applyHomography = (matrix: number[], [x, y]: Coordinate): Coordinate => {
+  const w = matrix[6] * x + matrix[7] * y + matrix[8]
+  return [(matrix[0] * x + matrix[1] * y + matrix[2]) / w, (matrix[3] * x + matrix[4] * y + matrix[5]) / w]
+}
+
+export const createHomographyTransform = (matrix: number[]): TransformFunction => {
+  return toTransformFunction((coord) => applyHomography(matrix, coord))
+}
+
+/**
+ * 3x3 matrix in row-major order that scales along the axes of a frame turned by `angle` radians around `anchor`
+ */
+export const createScaleMatrix = (scaleX: number, scaleY: number, [ax, ay]: Coordinate, angle: number): number[] => {
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const a = scaleX * cos * cos + scaleY * sin * sin
+  const b = (scaleX - scaleY) * cos * sin
+  const d = scaleX * sin * sin + scaleY * cos * cos
+  return [a, b, ax - a * ax - b * ay, b, d, ay - b * ax - d * ay, 0, 0, 1]
+}
+
+/**
+ * 3x3 matrix in row-major order that rotates counter-clockwise by `angle` radians around `pivot`
+ */
+export const createRotationMatrix = (angle: number, [px, py]: Coordinate): number[] => {
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return [cos, -sin, px - cos * px + sin * py, sin, cos, py - sin * px - cos * py, 0, 0, 1]
+}